@@ -1,5 +1,5 @@
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useCallback } from 'react';
 import { extractBillingData, extractPayrollData } from './services/geminiService';
 import { BillingRecord, PayrollRecord, MonthlyStats } from './types';
 import {
@@ -24,15 +24,82 @@ import {
   Scale,
   Zap,
   Clock,
-  Briefcase
+  Briefcase,
+  Settings,
+  Save
 } from 'lucide-react';
 import { fetchCNPJData, BrasilAPI_CNPJ } from './services/brasilApiService';
-import { calculateTaxEngine, TaxResults } from './services/taxEngine';
-import { mapCnaeToActivity, AppActivity } from './services/cnaeMapper';
+import {
+  TributoDAS, ALIQUOTA_ICMS_UF, LIMITE_SIMPLES, aliquotaInssPatronal,
+  calculateLucroPresumidoTrimestral, getPresuncaoLucroPresumido, CompetenciaReceita, FormaPagamentoLP,
+  buildCompetenceLedger, SegregacaoReceita, checkLimitesSimples, calculateMultiActivity, LinhaAtividade, MultiActivityResults
+} from './services/taxEngine';
+import { classifyCnae, AppActivity, ReducaoCbsIbs, TributoConsumo, TOTAL_SUBCLASSES_MAPEADAS } from './services/cnaeMapper';
+import { aliquotaIssPadrao, getProfissaoUniprofissional, ISS_MINIMO, ISS_MAXIMO } from './services/issMunicipal';
+import { TaxRuleSet, TaxRuleVersion, PresuncaoLP, DEFAULT_RULE_SETS, resolveRuleSet, mergeRuleSets, validateRuleSet } from './services/taxRules';
+import { fetchPublishedRuleSets, publishRuleSet } from './services/ruleSetService';
+import { saveSimulation } from './services/simulationService';
+import { projectReformaTransition, simulateSimplesHibrido, simulateSplitPayment } from './services/reformaEngine';
+import { solveBreakEven, PontoEquilibrio, buildRegimeHeatmap } from './services/breakEvenSolver';
+import { forecastBilling } from './services/forecastEngine';
+import { checkImpedimentosSimples } from './services/impedimentosSimples';
+import { optimizeProLabore, planFatorR, exportPlanoFatorRCsv, AjusteFatorR } from './services/proLaboreOptimizer';
+import { calculateCustoEmpregado, projectFolhaSazonal, FaixaFuncionarios, RegimeFolha, REGIMES_FOLHA } from './services/folhaEngine';
+import { getRatByCnae, calculateRatAjustado, getFpasByCnae, calculateTerceiros, getSetorCprbByCnae, FPAS_TABLE, SETORES_CPRB, GrauRat, FAP_MINIMO, FAP_MAXIMO } from './services/ratFpas';
 import { useAuth } from './AuthContext';
 import { Login } from './Login';
 import { LogOut } from 'lucide-react';
 
+const TRIBUTO_DAS_LABELS: Record<TributoDAS, string> = {
+  irpj: 'IRPJ',
+  csll: 'CSLL',
+  cofins: 'COFINS',
+  pis: 'PIS/Pasep',
+  cpp: 'CPP (INSS)',
+  icms: 'ICMS',
+  ipi: 'IPI',
+  iss: 'ISS'
+};
+
+interface SimActivity {
+  activity: AppActivity;
+  percentage: number;
+  label: string;
+  cnae?: string;
+  reducaoCbsIbs?: ReducaoCbsIbs; // Sugerida pelo CNAE, ajustável na linha
+  fundamentoCbsIbs?: string;
+  segregacao?: SegregacaoReceita; // Parcelas da receita da linha com ST, monofásico ou exportação
+  presuncao?: PresuncaoLP; // Presunção própria da subclasse CNAE (descartada ao trocar a atividade)
+  tributoConsumo?: TributoConsumo;
+  confirmacao?: string; // Enquadramento ambíguo: motivo para confirmação manual
+}
+
+// Linha de atividade pelo enquadramento da subclasse CNAE
+const activityFromCnae = (codigo: string, label: string, percentage: number): SimActivity => {
+  const classificacao = classifyCnae(codigo);
+  return {
+    cnae: codigo,
+    label,
+    activity: classificacao.activity,
+    percentage,
+    reducaoCbsIbs: classificacao.cbsIbs.reducao,
+    fundamentoCbsIbs: classificacao.cbsIbs.fundamento,
+    presuncao: classificacao.presuncao,
+    tributoConsumo: classificacao.tributoConsumo,
+    confirmacao: classificacao.motivo
+  };
+};
+
+// Diferenças do enquadramento da subclasse em relação à regra da atividade
+const notasEnquadramento = (act: SimActivity): string[] => {
+  const servico = act.activity !== 'comercio' && act.activity !== 'industria';
+  const notas: string[] = [];
+  if (act.presuncao) notas.push(`Presunção LP ${(act.presuncao.irpj * 100).toLocaleString('pt-BR')}% / ${(act.presuncao.csll * 100).toLocaleString('pt-BR')}%`);
+  if (act.tributoConsumo === 'icms' && servico) notas.push('ICMS em vez de ISS');
+  if (act.tributoConsumo === 'nenhum') notas.push('Sem ISS/ICMS');
+  return notas;
+};
+
 interface SelectedFile {
   base64: string;
   mimeType: string;
@@ -46,7 +113,7 @@ const MONTH_NAMES = [
 
 const App: React.FC = () => {
   const { user, loading, signOut } = useAuth();
-  const [activeTab, setActiveTab] = useState<'analysis' | 'brasilapi' | 'tax-rules' | 'payroll-reflection' | 'calculation-memory' | 'report'>('analysis');
+  const [activeTab, setActiveTab] = useState<'analysis' | 'brasilapi' | 'tax-rules' | 'payroll-reflection' | 'calculation-memory' | 'report' | 'admin-rules'>('analysis');
   const [billingFile, setBillingFile] = useState<SelectedFile | null>(null);
   const [payrollFile, setPayrollFile] = useState<SelectedFile | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
@@ -66,12 +133,74 @@ const App: React.FC = () => {
   const [simMonthlyBilling, setSimMonthlyBilling] = useState<number>(0);
   const [simMonthlyPayroll, setSimMonthlyPayroll] = useState<number>(0);
   const [simMonthlyProLabore, setSimMonthlyProLabore] = useState<number>(0);
-  const [simActivity, setSimActivity] = useState<'comercio' | 'industria' | 'servico_geral' | 'servico_intellectual' | 'hospitalar'>('servico_intellectual');
+  const [simActivity, setSimActivity] = useState<AppActivity>('servico_intellectual');
   const [simIsB2B, setSimIsB2B] = useState<boolean>(true);
-  const [simIssRate, setSimIssRate] = useState<number>(0.05);
-  const [simActivities, setSimActivities] = useState<{ activity: AppActivity; percentage: number; label: string; cnae?: string }[]>([]);
+  const [simIssRate, setSimIssRate] = useState<number>(ISS_MAXIMO);
+  const [issFundamento, setIssFundamento] = useState<string>('');
+  const [issEstimativa, setIssEstimativa] = useState<boolean>(false);
+  // ISS fixo da sociedade uniprofissional: valor mensal por profissional habilitado
+  const [issFixoAtivo, setIssFixoAtivo] = useState<boolean>(false);
+  const [issFixoProfissionais, setIssFixoProfissionais] = useState<number>(1);
+  const [issFixoValor, setIssFixoValor] = useState<number>(0);
+  const [simActivities, setSimActivities] = useState<SimActivity[]>([]);
   const [simRatRate, setSimRatRate] = useState<number>(0.02);
   const [simTerceirosRate, setSimTerceirosRate] = useState<number>(0.058);
+  const [simRatBase, setSimRatBase] = useState<GrauRat>(0.02);
+  const [ratFundamento, setRatFundamento] = useState<string>('');
+  const [ratEstimativa, setRatEstimativa] = useState<boolean>(false);
+  const [simFap, setSimFap] = useState<number>(1);
+  const [simFpas, setSimFpas] = useState<string>('515');
+  const [simCprbSetor, setSimCprbSetor] = useState<string>(''); // Vazio: não optante da CPRB
+  const [simMonthlyExpenses, setSimMonthlyExpenses] = useState<number>(0);
+  const [simCreditableInputs, setSimCreditableInputs] = useState<number>(0);
+  const [simPrejuizoFiscal, setSimPrejuizoFiscal] = useState<number>(0);
+  const [receitaOutrasEmpresas, setReceitaOutrasEmpresas] = useState<number | undefined>(undefined); // Empresas em que os sócios têm mais de 10%
+  const [simIcmsRate, setSimIcmsRate] = useState<number>(0.18);
+  const [simLpFormaPagamento, setSimLpFormaPagamento] = useState<FormaPagamentoLP>('cota_unica');
+  const [simSelicMensal, setSimSelicMensal] = useState<number>(0.0117);
+  const [splitPix, setSplitPix] = useState<number>(0.3);
+  const [splitCartao, setSplitCartao] = useState<number>(0.3);
+  const [splitPrazoMedio, setSplitPrazoMedio] = useState<number>(30);
+  const [splitPrazoCartao, setSplitPrazoCartao] = useState<number>(30);
+  const [planoAjuste, setPlanoAjuste] = useState<AjusteFatorR>('proLabore');
+  const [planoCrescimento, setPlanoCrescimento] = useState<number>(0); // % ao mês sobre a receita prevista
+  const [folhaFaixas, setFolhaFaixas] = useState<FaixaFuncionarios[]>([]);
+  const [provisionarMulta, setProvisionarMulta] = useState<boolean>(true);
+  const [simCompetencia, setSimCompetencia] = useState<string>(() => {
+    const hoje = new Date();
+    return `${hoje.getFullYear()}-${String(hoje.getMonth() + 1).padStart(2, '0')}`;
+  });
+
+  // Versões de regras tributárias (padrão do código + publicadas no Supabase)
+  const [ruleVersions, setRuleVersions] = useState<TaxRuleVersion[]>(DEFAULT_RULE_SETS.map(regras => ({ regras, status: 'padrao' })));
+  const [adminVersao, setAdminVersao] = useState<string>('');
+  const [adminJson, setAdminJson] = useState<string>('');
+  const [adminErrors, setAdminErrors] = useState<string[]>([]);
+  const [adminMessage, setAdminMessage] = useState<string | null>(null);
+  const [ruleSetsError, setRuleSetsError] = useState<string | null>(null);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [saveMessage, setSaveMessage] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isAdmin = user?.app_metadata?.role === 'admin';
+
+  React.useEffect(() => {
+    if (!user) return;
+    setRuleSetsError(null);
+    fetchPublishedRuleSets()
+      .then(publicadas => {
+        const versoes = mergeRuleSets(DEFAULT_RULE_SETS, publicadas.map(v => v.regras));
+        setRuleVersions(versoes.map(regras => publicadas.find(v => v.regras.versao === regras.versao) || { regras, status: 'padrao' }));
+      })
+      .catch((err: Error) => setRuleSetsError(`${err.message || 'Erro ao carregar versões de regras.'} Usando as regras padrão.`));
+  }, [user]);
+
+  const ruleSets = useMemo(() => ruleVersions.map(v => v.regras), [ruleVersions]);
+
+  const regrasVigentes = useMemo(() => {
+    const [ano, mes] = simCompetencia.split('-').map(Number);
+    return resolveRuleSet({ ano, mes }, ruleSets);
+  }, [simCompetencia, ruleSets]);
 
   const formatRawToCurrency = (value: number) => {
     return new Intl.NumberFormat('pt-BR', {
@@ -167,33 +296,46 @@ const App: React.FC = () => {
   // Map CNAEs to activities when data is fetched
   React.useEffect(() => {
     if (brasilApiData) {
-      const activities: { activity: AppActivity; percentage: number; label: string; cnae: string }[] = [];
+      const activities: SimActivity[] = [];
 
       // Primary CNAE
       if (brasilApiData.cnae_fiscal) {
-        activities.push({
-          cnae: brasilApiData.cnae_fiscal.toString(),
-          label: brasilApiData.cnae_fiscal_descricao || 'Atividade Principal',
-          activity: mapCnaeToActivity(brasilApiData.cnae_fiscal.toString()),
-          percentage: 100
-        });
+        activities.push(activityFromCnae(brasilApiData.cnae_fiscal.toString(), brasilApiData.cnae_fiscal_descricao || 'Atividade Principal', 100));
       }
 
       // Secondary CNAEs
       if (brasilApiData.cnaes_secundarios) {
         brasilApiData.cnaes_secundarios.forEach(c => {
-          activities.push({
-            cnae: c.codigo.toString(),
-            label: c.descricao,
-            activity: mapCnaeToActivity(c.codigo.toString()),
-            percentage: 0
-          });
+          activities.push(activityFromCnae(c.codigo.toString(), c.descricao, 0));
         });
       }
 
       if (activities.length > 0) {
         setSimActivities(activities);
       }
+
+      if (brasilApiData.uf && ALIQUOTA_ICMS_UF[brasilApiData.uf]) {
+        setSimIcmsRate(ALIQUOTA_ICMS_UF[brasilApiData.uf]);
+      }
+
+      // ISS: teto da LC 116 até o usuário informar a alíquota do município
+      const enquadramentoIss = aliquotaIssPadrao(brasilApiData.municipio, brasilApiData.uf);
+      setSimIssRate(enquadramentoIss.aliquota);
+      setIssFundamento(enquadramentoIss.fundamento);
+      setIssEstimativa(enquadramentoIss.estimativa);
+
+      // RAT e FPAS pela atividade principal; os sliders continuam disponíveis para ajuste manual
+      if (brasilApiData.cnae_fiscal) {
+        const enquadramentoRat = getRatByCnae(brasilApiData.cnae_fiscal.toString());
+        setSimRatBase(enquadramentoRat.rat);
+        setRatFundamento(enquadramentoRat.fundamento);
+        setRatEstimativa(enquadramentoRat.estimativa);
+        setSimRatRate(calculateRatAjustado(enquadramentoRat.rat, simFap));
+
+        const fpas = getFpasByCnae(brasilApiData.cnae_fiscal.toString());
+        setSimFpas(fpas.codigo);
+        setSimTerceirosRate(calculateTerceiros(fpas).total);
+      }
     }
   }, [brasilApiData]);
 
@@ -214,6 +356,12 @@ const App: React.FC = () => {
     return monthStr;
   };
 
+  // "Março/2025" -> { ano: 2025, mes: 3 }
+  const toCompetencia = (monthLabel: string) => {
+    const [monthName, year] = monthLabel.split('/');
+    return { ano: Number(year), mes: MONTH_NAMES.indexOf(monthName) + 1 };
+  };
+
   const monthlyStats = useMemo((): MonthlyStats[] => {
     const stats: Record<string, { billing: number; salaries: number; proLabore: number; monthName: string; year: number }> = {};
 
@@ -260,11 +408,25 @@ const App: React.FC = () => {
 
   const totalBilling = billingRecords.reduce((acc, curr) => acc + curr.total, 0);
   const totalSalaries = payrollRecords.filter(r => r.category !== 'pro-labore').reduce((acc, curr) => acc + curr.value, 0) * 1.08;
-  const totalProLabore = payrollRecords.filter(r => r.category === 'pro-labore').reduce((acc, curr) => acc + curr.value, 0) * 1.08;
+  const totalProLabore = payrollRecords.filter(r => r.category === 'pro-labore').reduce((acc, curr) => acc + curr.value, 0); // Pró-labore não tem FGTS
   const totalPayroll = totalSalaries + totalProLabore;
 
   const accumulatedFactorR = totalBilling > 0 ? (totalPayroll / totalBilling) * 100 : 0;
 
+  const atividadePredominante = simActivities.length > 0
+    ? [...simActivities].sort((a, b) => b.percentage - a.percentage)[0].activity
+    : simActivity;
+
+  const serieFolha = useMemo(() => monthlyStats
+    .map(s => ({ ...toCompetencia(s.month), receita: s.billing, salarios: s.salaries, proLabore: s.proLabore }))
+    .filter(c => c.mes > 0), [monthlyStats]);
+
+  // Livro por competência: RBT12 e Fator R móveis (12 meses anteriores) para a atividade predominante
+  const competenceLedger = useMemo(() => {
+    const ledger = buildCompetenceLedger(serieFolha, atividadePredominante, ruleSets);
+    return ledger.map(l => ({ ...l, month: `${MONTH_NAMES[l.mes - 1]}/${l.ano}` }));
+  }, [serieFolha, atividadePredominante, ruleSets]);
+
   // Statistical Metrics for Simulation
   const statsMetrics = useMemo(() => {
     const billings = monthlyStats.map(s => s.billing).filter(v => v > 0);
@@ -303,66 +465,408 @@ const App: React.FC = () => {
   }, [monthlyStats]);
 
 
-  const taxSimulation = useMemo(() => {
-    const rbt12 = simRbt12 || totalBilling;
+  // Profissão regulamentada entre as atividades com receita: habilita o ISS fixo por profissional
+  const profissaoUniprofissional = useMemo(() => simActivities
+    .filter(a => a.percentage > 0 && a.cnae)
+    .map(a => getProfissaoUniprofissional(a.cnae!))
+    .find(Boolean), [simActivities]);
+
+  // Início de atividade (data da BrasilAPI): limites proporcionais do Simples no ano de abertura
+  const inicioAtividade = useMemo(() => {
+    const [anoInicio, mesInicio] = (brasilApiData?.data_inicio_atividade || '').split('-').map(Number);
+    return anoInicio && mesInicio ? { ano: anoInicio, mes: mesInicio } : undefined;
+  }, [brasilApiData]);
+
+  // Limites do Simples no ano da competência
+  const limitesSimples = useMemo(() => {
+    const [ano, mes] = simCompetencia.split('-').map(Number);
+    const serie = monthlyStats.map(s => ({ ...toCompetencia(s.month), receita: s.billing })).filter(c => c.mes > 0);
+    const mesesAno = serie.filter(c => c.ano === ano && c.mes <= mes);
+    const mesesAnoAnterior = serie.filter(c => c.ano === ano - 1);
+    const receitaAno = mesesAno.length > 0
+      ? mesesAno.reduce((acc, c) => acc + c.receita, 0)
+      : (simMonthlyBilling || (totalBilling / 12) || 0) * (inicioAtividade?.ano === ano ? Math.max(1, mes - inicioAtividade.mes + 1) : mes);
+    const receitaAnoAnterior = mesesAnoAnterior.length > 0 ? mesesAnoAnterior.reduce((acc, c) => acc + c.receita, 0) : undefined;
+    return checkLimitesSimples({ ano, mes }, receitaAno, inicioAtividade, receitaAnoAnterior);
+  }, [simCompetencia, inicioAtividade, monthlyStats, simMonthlyBilling, totalBilling]);
+
+  // No ano de abertura, a receita acumulada no ano vai contra o limite proporcional
+  const impedimentosSimples = useMemo(() => brasilApiData
+    ? checkImpedimentosSimples(
+      brasilApiData,
+      limitesSimples.primeiroAno ? limitesSimples.receitaAno : simRbt12 || totalBilling,
+      receitaOutrasEmpresas,
+      limitesSimples.limite
+    )
+    : null,
+  [brasilApiData, simRbt12, totalBilling, receitaOutrasEmpresas, limitesSimples]);
+
+  // Apuração trimestral do LP sobre a série mensal (ou faturamento simulado constante no ano corrente)
+  const serieReceita = useMemo((): CompetenciaReceita[] => {
     const mBilling = simMonthlyBilling || (totalBilling / 12) || 0;
-    const mProLabore = simMonthlyProLabore || statsMetrics.proLabore.avg || 0;
-    const mSalaries = simMonthlyPayroll || statsMetrics.salaries.avg || 0;
+    return monthlyStats.length > 0
+      ? monthlyStats.map(s => ({ ...toCompetencia(s.month), receita: s.billing })).filter(c => c.mes > 0)
+      : MONTH_NAMES.map((_, idx) => ({ ano: new Date().getFullYear(), mes: idx + 1, receita: mBilling }));
+  }, [monthlyStats, simMonthlyBilling, totalBilling]);
+
+  // Presunção do LP média, ponderada pelas atividades com receita, numa versão de regras
+  const presuncaoPonderada = useCallback((regras: TaxRuleSet, rbt12: number): PresuncaoLP => {
+    const activeActivities = simActivities.filter(a => a.percentage > 0);
+    const weights = activeActivities.length > 0
+      ? activeActivities.map(a => ({ activity: a.activity, presuncao: a.presuncao, weight: a.percentage / 100 }))
+      : [{ activity: simActivity, presuncao: undefined, weight: 1 }];
+    const totalWeight = weights.reduce((acc, w) => acc + w.weight, 0) || 1;
+    return weights.reduce((acc, w) => {
+      const p = getPresuncaoLucroPresumido(w.activity, rbt12, regras, w.presuncao);
+      return { irpj: acc.irpj + p.irpj * w.weight / totalWeight, csll: acc.csll + p.csll * w.weight / totalWeight };
+    }, { irpj: 0, csll: 0 });
+  }, [simActivities, simActivity]);
+
+  // Simulação consolidada (todas as atividades) com uma versão de regras; reutilizada na projeção da reforma,
+  // no otimizador de pró-labore e no ponto de equilíbrio, que substituem valores mensais em `ajustes`
+  const simulateTaxes = useCallback((
+    regras: TaxRuleSet,
+    ajustes: { proLabore?: number; faturamento?: number; salarios?: number } = {}
+  ): MultiActivityResults => {
+    // Faturamento ajustado: RBT12 anualizado a partir dele; no início de atividade, média dos meses x 12
+    const rbt12 = ajustes.faturamento !== undefined ? ajustes.faturamento * 12 : (simRbt12 || limitesSimples.rbt12Anualizado || totalBilling);
+    const mBilling = ajustes.faturamento ?? (simMonthlyBilling || (totalBilling / 12) || 0);
+    const mProLabore = ajustes.proLabore ?? (simMonthlyProLabore || statsMetrics.proLabore.avg || 0);
+    const mSalaries = ajustes.salarios ?? (simMonthlyPayroll || statsMetrics.salaries.avg || 0);
     const mPayroll = mSalaries + mProLabore;
 
-    // Use simActivities if defined, otherwise fallback to simActivity
-    const activeActivities = simActivities.length > 0
-      ? simActivities.filter(a => a.percentage > 0)
-      : [{ activity: simActivity, percentage: 100, label: 'Geral' }];
+    // Sem linhas de atividade, a atividade única do simulador responde por toda a receita
+    const linhas: LinhaAtividade[] = simActivities.length > 0
+      ? simActivities.filter(a => a.percentage > 0).map(a => ({
+        activity: a.activity,
+        percentual: a.percentage,
+        label: a.label,
+        reducaoCbsIbs: a.reducaoCbsIbs,
+        segregacao: a.segregacao,
+        presuncao: a.presuncao,
+        tributoConsumo: a.tributoConsumo,
+        uniprofissional: !!a.cnae && !!getProfissaoUniprofissional(a.cnae)
+      }))
+      : [{ activity: simActivity, percentual: 100, label: 'Geral' }];
+    if (linhas.length === 0) linhas.push({ activity: simActivity, percentual: 100, label: 'Geral' });
+
+    // Faturamento da série importada: IRPJ/CSLL do LP pelas apurações trimestrais (adicional por trimestre).
+    // Com faturamento ajustado (ponto de equilíbrio, mapa de regimes), a série é escalada à nova média mensal
+    const mBillingBase = totalBilling / 12;
+    const usaSerie = !simMonthlyBilling && monthlyStats.length > 0 && (ajustes.faturamento === undefined || mBillingBase > 0);
+    const serie = ajustes.faturamento !== undefined && mBillingBase > 0
+      ? serieReceita.map(c => ({ ...c, receita: c.receita * ajustes.faturamento! / mBillingBase }))
+      : serieReceita;
+    const apuracaoTrimestralLP = usaSerie
+      ? calculateLucroPresumidoTrimestral(serie, presuncaoPonderada(regras, rbt12), undefined, undefined, { inicio: inicioAtividade })
+      : undefined;
+
+    return calculateMultiActivity(linhas, rbt12, mBilling, mPayroll, simIsB2B, simIssRate, simRatRate, simTerceirosRate, mProLabore, {
+      monthlyExpenses: simMonthlyExpenses,
+      creditableInputs: simCreditableInputs,
+      prejuizoFiscalAcumulado: simPrejuizoFiscal,
+      icmsRate: simIcmsRate,
+      regras,
+      cprbRate: SETORES_CPRB.find(s => s.codigo === simCprbSetor)?.aliquota,
+      issFixoMensal: issFixoAtivo ? issFixoProfissionais * issFixoValor : undefined,
+      apuracaoTrimestralLP,
+      // Os limites do ano só valem para o faturamento informado, não para os cenários ajustados
+      limites: ajustes.faturamento === undefined ? limitesSimples : undefined
+    });
+  }, [simRbt12, simMonthlyBilling, simMonthlyPayroll, simMonthlyProLabore, simActivity, simIsB2B, totalBilling, simActivities, simIssRate, simRatRate, simTerceirosRate, statsMetrics.proLabore.avg, statsMetrics.salaries.avg, simMonthlyExpenses, simCreditableInputs, simPrejuizoFiscal, simIcmsRate, simCprbSetor, limitesSimples, issFixoAtivo, issFixoProfissionais, issFixoValor, monthlyStats.length, serieReceita, presuncaoPonderada, inicioAtividade]);
 
-    if (activeActivities.length === 0) {
-      return calculateTaxEngine(rbt12, mBilling, mPayroll, simActivity, simIsB2B, simIssRate, simRatRate, simTerceirosRate, mProLabore);
-    }
+  const taxSimulation = useMemo(() => simulateTaxes(regrasVigentes), [simulateTaxes, regrasVigentes]);
 
-    const results = activeActivities.map(a => {
-      const weight = a.percentage / 100;
+  // Reoneração da folha (Lei 14.973/2024): encargos mensais de LP/LR com CPRB de 2024 a 2028
+  const curvaDesoneracao = useMemo(() => {
+    if (!simCprbSetor) return [];
+    return [2024, 2025, 2026, 2027, 2028].map(ano => {
+      const regras = resolveRuleSet({ ano, mes: 1 }, ruleSets);
+      const res = simulateTaxes(regras);
       return {
-        weight,
-        res: calculateTaxEngine(rbt12, mBilling * weight, mPayroll * weight, a.activity, simIsB2B, simIssRate, simRatRate, simTerceirosRate, mProLabore * weight)
+        ano: String(ano),
+        cprb: res.folha.cprb,
+        inssFolha: res.folha.inssPatronal,
+        economia: res.folha.economiaDesoneracao,
+        presumido: res.comparativo.presumido,
+        real: res.comparativo.real,
+        aliquotaFolha: regras.desoneracao.aliquotaFolha * 100,
+        fatorCprb: regras.desoneracao.fatorCprb * 100
       };
     });
-    // Aggregate results
-    const firstRes = results[0].res;
-    const aggregated: TaxResults = {
-      simples: { ...firstRes.simples, dasTotal: 0 },
-      lucroPresumido: { ...firstRes.lucroPresumido, total: 0, irpj: 0, csll: 0, pis: 0, cofins: 0 },
-      reforma2026: { ...firstRes.reforma2026, cbs_ibs: 0 },
-      folha: { ...firstRes.folha, inssPatronal: 0, rat: 0, terceiros: 0, totalEncargos: 0 },
-      sugestao: firstRes.sugestao
+  }, [simCprbSetor, simulateTaxes, ruleSets]);
+
+  // Carga anual por regime em cada ano da transição da reforma (2026-2033)
+  const reformaProjection = useMemo(() => projectReformaTransition(simulateTaxes, ruleSets), [simulateTaxes, ruleSets]);
+
+  // Regras com CBS/IBS em vigor (competência simulada ou, antes dela, 2027)
+  const regrasReforma = useMemo(
+    () => regrasVigentes.reforma.pisCofinsExtinto ? regrasVigentes : resolveRuleSet({ ano: 2027, mes: 1 }, ruleSets),
+    [regrasVigentes, ruleSets]
+  );
+
+  // Redução de CBS/IBS média, ponderada pela participação de cada atividade no faturamento
+  const reducaoMediaCbsIbs = useMemo(() => {
+    const ativas = simActivities.filter(a => a.percentage > 0);
+    const totalPct = ativas.reduce((acc, a) => acc + a.percentage, 0);
+    return totalPct > 0 ? ativas.reduce((acc, a) => acc + (a.reducaoCbsIbs || 0) * a.percentage, 0) / totalPct : 0;
+  }, [simActivities]);
+
+  // Simples puro x híbrido (CBS/IBS fora do DAS), disponível a partir de 2027
+  const simplesHibrido = useMemo(() => {
+    const base = regrasReforma === regrasVigentes ? taxSimulation : simulateTaxes(regrasReforma);
+    const mBilling = simMonthlyBilling || (totalBilling / 12) || 0;
+    return simulateSimplesHibrido(base, mBilling, simCreditableInputs, regrasReforma, simIsB2B ? 1 : 0, reducaoMediaCbsIbs);
+  }, [regrasReforma, regrasVigentes, taxSimulation, simulateTaxes, simMonthlyBilling, totalBilling, simCreditableInputs, simIsB2B, reducaoMediaCbsIbs]);
+
+  // Ranking dos regimes elegíveis (menor carga total, incluindo encargos fora da guia) para o relatório
+  const regimeRanking = useMemo(() => {
+    const ranking = [
+      { regime: 'Simples Nacional', total: taxSimulation.comparativo.simples, elegivel: taxSimulation.simples.elegivel },
+      { regime: 'Lucro Presumido', total: taxSimulation.comparativo.presumido, elegivel: taxSimulation.lucroPresumido.elegivel },
+      { regime: 'Lucro Real', total: taxSimulation.comparativo.real, elegivel: taxSimulation.lucroReal.elegivel }
+    ];
+    return ranking.filter(r => r.elegivel).sort((a, b) => a.total - b.total);
+  }, [taxSimulation]);
+
+  const regimeVencedor = regimeRanking[0]?.regime || 'Simples Nacional';
+  const vantagemMensal = regimeRanking.length > 1 ? regimeRanking[1].total - regimeRanking[0].total : 0;
+
+  // Projeção de 12 meses sobre o faturamento importado, com alertas de faixa, sublimite e limite
+  const projecaoFaturamento = useMemo(() => {
+    if (monthlyStats.length === 0) return null;
+    const historico = monthlyStats.map(s => ({ ...toCompetencia(s.month), receita: s.billing })).filter(c => c.mes > 0);
+    const faixas = regrasVigentes.simples[`ANEXO_${taxSimulation.simples.anexo}`] || regrasVigentes.simples.ANEXO_I;
+    const projecao = forecastBilling(historico, faixas, 12, inicioAtividade);
+    return { ...projecao, meses: projecao.meses.map(m => ({ ...m, label: `${MONTH_NAMES[m.mes - 1].slice(0, 3)}/${String(m.ano).slice(2)}` })) };
+  }, [monthlyStats, regrasVigentes, taxSimulation.simples.anexo, inicioAtividade]);
+
+  const aplicarProjecao = () => {
+    if (!projecaoFaturamento) return;
+    setSimRbt12(Math.round(projecaoFaturamento.receitaProjetada12));
+    setSimMonthlyBilling(Math.round(projecaoFaturamento.mediaProjetada));
+  };
+
+  const lpTrimestral = useMemo(() => {
+    const rbt12 = simRbt12 || totalBilling;
+    // Presunção pela versão de regras vigente em cada trimestre
+    const presuncao = (competencia: { ano: number; mes: number }) => presuncaoPonderada(resolveRuleSet(competencia, ruleSets), rbt12);
+    return calculateLucroPresumidoTrimestral(serieReceita, presuncao, simLpFormaPagamento, simSelicMensal, { inicio: inicioAtividade });
+  }, [serieReceita, simRbt12, totalBilling, presuncaoPonderada, simLpFormaPagamento, simSelicMensal, ruleSets, inicioAtividade]);
+
+  // Fluxo de caixa com retenção de CBS/IBS na liquidação x recolhimento no dia 20 do mês seguinte
+  const splitPaymentFlow = useMemo(() => simulateSplitPayment(serieReceita, simCreditableInputs, regrasReforma, {
+    mix: { pix: splitPix, cartao: splitCartao, prazo: Math.max(0, 1 - splitPix - splitCartao) },
+    prazoMedioRecebimento: splitPrazoMedio,
+    prazoCartao: splitPrazoCartao,
+    reducaoCbsIbs: reducaoMediaCbsIbs
+  }).map(m => ({ ...m, label: `${MONTH_NAMES[m.mes - 1].slice(0, 3)}/${String(m.ano).slice(2)}` })),
+  [serieReceita, simCreditableInputs, regrasReforma, splitPix, splitCartao, splitPrazoMedio, splitPrazoCartao, reducaoMediaCbsIbs]);
+
+  // Pró-labore x dividendos: carga da empresa + INSS/IRPF dos sócios + tributação de dividendos (Lei 15.270/2025)
+  const proLaboreOtimo = useMemo(() => {
+    const rbt12 = simRbt12 || totalBilling;
+    const mBilling = simMonthlyBilling || (totalBilling / 12) || 0;
+    const mSalaries = simMonthlyPayroll || statsMetrics.salaries.avg || 0;
+    const mProLabore = simMonthlyProLabore || statsMetrics.proLabore.avg || 0;
+    const lucroAntesProLabore = mBilling - simMonthlyExpenses - mSalaries * 1.08;
+    if (mBilling <= 0 || lucroAntesProLabore <= 0) return null;
+    return optimizeProLabore(
+      p => simulateTaxes(regrasVigentes, { proLabore: p }),
+      lucroAntesProLabore,
+      rbt12,
+      mSalaries * 1.08,
+      brasilApiData?.qsa || [],
+      mProLabore
+    );
+  }, [simulateTaxes, regrasVigentes, simRbt12, totalBilling, simMonthlyBilling, simMonthlyPayroll, simMonthlyProLabore, statsMetrics, simMonthlyExpenses, brasilApiData]);
+
+  // Custo CLT por empregado em cada regime e sazonalidade da folha (13º e férias)
+  const faixasFolha = useMemo((): FaixaFuncionarios[] => folhaFaixas.length > 0
+    ? folhaFaixas
+    : [{ descricao: 'Folha atual', quantidade: 1, salario: simMonthlyPayroll || statsMetrics.salaries.avg || 0 }],
+  [folhaFaixas, simMonthlyPayroll, statsMetrics]);
+
+  const regimeFolhaAtual: RegimeFolha = taxSimulation.sugestao.startsWith('Simples')
+    ? (taxSimulation.simples.anexo === 'IV' ? 'simples_anexo_iv' : 'simples')
+    : 'normal';
+
+  const custoFolha = useMemo(() => {
+    const params = {
+      ratRate: simRatRate,
+      terceirosRate: simTerceirosRate,
+      inssRate: aliquotaInssPatronal(regrasVigentes, SETORES_CPRB.find(s => s.codigo === simCprbSetor)?.aliquota),
+      provisionarMulta
     };
+    const sazonal = projectFolhaSazonal(faixasFolha, regimeFolhaAtual, params)
+      .map(m => ({ ...m, label: MONTH_NAMES[m.mes - 1].slice(0, 3) }));
 
-    results.forEach(({ weight, res }) => {
-      aggregated.simples.dasTotal += res.simples.dasTotal;
-      aggregated.lucroPresumido.irpj += res.lucroPresumido.irpj;
-      aggregated.lucroPresumido.csll += res.lucroPresumido.csll;
-      aggregated.lucroPresumido.pis += res.lucroPresumido.pis;
-      aggregated.lucroPresumido.cofins += res.lucroPresumido.cofins;
-      aggregated.lucroPresumido.issqn += res.lucroPresumido.issqn;
-      aggregated.lucroPresumido.total += res.lucroPresumido.total;
-      aggregated.reforma2026.cbs_ibs += res.reforma2026.cbs_ibs;
-      aggregated.folha.inssPatronal += res.folha.inssPatronal;
-      aggregated.folha.rat += res.folha.rat;
-      aggregated.folha.terceiros += res.folha.terceiros;
-      aggregated.folha.totalEncargos += res.folha.totalEncargos;
-    });
+    // Fator R com a folha fixa (salário + FGTS x 12) e com os picos de 13º e férias
+    const rbt12 = simRbt12 || totalBilling;
+    const proLabore12 = (simMonthlyProLabore || statsMetrics.proLabore.avg || 0) * 12;
+    const folhaFixa = sazonal.reduce((acc, m) => acc + m.salarios * 1.08, 0);
+    const folhaComPicos = sazonal.reduce((acc, m) => acc + m.folhaFatorR, 0);
+
+    return {
+      porFaixa: faixasFolha.map(f => ({
+        faixa: f,
+        custos: REGIMES_FOLHA.map(r => calculateCustoEmpregado(f.salario, r.regime, params))
+      })),
+      sazonal,
+      fatorRFolhaFixa: rbt12 > 0 ? ((folhaFixa + proLabore12) / rbt12) * 100 : 0,
+      fatorRComPicos: rbt12 > 0 ? ((folhaComPicos + proLabore12) / rbt12) * 100 : 0
+    };
+  }, [faixasFolha, regimeFolhaAtual, simRatRate, simTerceirosRate, regrasVigentes, simCprbSetor, provisionarMulta, simRbt12, totalBilling, simMonthlyProLabore, statsMetrics]);
+
+  const terceirosFpas = calculateTerceiros(FPAS_TABLE[simFpas]);
+
+  const applyRatFap = (rat: GrauRat, fap: number) => {
+    setSimRatBase(rat);
+    setSimFap(fap);
+    setSimRatRate(calculateRatAjustado(rat, fap));
+  };
+
+  const applyFpas = (codigo: string) => {
+    setSimFpas(codigo);
+    setSimTerceirosRate(calculateTerceiros(FPAS_TABLE[codigo]).total);
+  };
+
+  const updateFaixaFolha = (idx: number, campos: Partial<FaixaFuncionarios>) => {
+    const base = folhaFaixas.length > 0 ? folhaFaixas : faixasFolha;
+    setFolhaFaixas(base.map((f, i) => (i === idx ? { ...f, ...campos } : f)));
+  };
+
+  // Ponto de equilíbrio Simples x LP por faturamento (RBT12 anualizado) e por folha de salários
+  const pontoEquilibrio = useMemo(() => {
+    const mBilling = simMonthlyBilling || (totalBilling / 12) || 0;
+    const mSalaries = simMonthlyPayroll || statsMetrics.salaries.avg || 0;
+    if (mBilling <= 0) return null;
+    return {
+      faturamento: solveBreakEven(
+        'faturamento', v => simulateTaxes(regrasVigentes, { faturamento: v }),
+        mBilling, mBilling * 0.1, Math.max(mBilling * 3, (LIMITE_SIMPLES / 12) * 1.1)
+      ),
+      folha: solveBreakEven(
+        'folha', v => simulateTaxes(regrasVigentes, { salarios: v }),
+        mSalaries, 0, Math.max(mSalaries * 3, mBilling * 0.6)
+      )
+    };
+  }, [simulateTaxes, regrasVigentes, simMonthlyBilling, totalBilling, simMonthlyPayroll, statsMetrics]);
+
+  // Mapa do regime mais barato por RBT12 x folha (salários + pró-labore na proporção atual)
+  const mapaRegimes = useMemo(() => {
+    const mBilling = simMonthlyBilling || (totalBilling / 12) || 0;
+    if (mBilling <= 0) return null;
+    const rbt12Atual = simRbt12 || totalBilling || mBilling * 12;
+    const mProLabore = simMonthlyProLabore || statsMetrics.proLabore.avg || 0;
+    const mSalaries = simMonthlyPayroll || statsMetrics.salaries.avg || 0;
+    const folhaAtual = mProLabore + mSalaries;
+    const fracaoProLabore = folhaAtual > 0 ? mProLabore / folhaAtual : 0;
+
+    const rbt12Max = Math.max(rbt12Atual * 2, LIMITE_SIMPLES * 1.1);
+    const rbt12Min = Math.max(rbt12Atual * 0.2, 60000);
+    const folhaMax = Math.max(folhaAtual * 2.5, mBilling * 0.5);
+    const eixoRbt12 = Array.from({ length: 10 }, (_, i) => rbt12Min + (rbt12Max - rbt12Min) * i / 9);
+    const eixoFolha = Array.from({ length: 8 }, (_, i) => folhaMax * i / 7);
+
+    return buildRegimeHeatmap(
+      (rbt12, folha) => simulateTaxes(regrasVigentes, {
+        faturamento: rbt12 / 12,
+        proLabore: folha * fracaoProLabore,
+        salarios: folha * (1 - fracaoProLabore)
+      }),
+      eixoRbt12, eixoFolha, { rbt12: rbt12Atual, folha: folhaAtual }
+    );
+  }, [simulateTaxes, regrasVigentes, simMonthlyBilling, totalBilling, simRbt12, simMonthlyProLabore, simMonthlyPayroll, statsMetrics]);
+
+  const descreverEquilibrio = (p: PontoEquilibrio) => {
+    const outro = p.vencedorAtual === 'Simples Nacional' ? 'Lucro Presumido' : 'Simples Nacional';
+    const custo = p.equilibrio === null
+      ? `${p.vencedorAtual} vence em toda a faixa em que o Simples é elegível.`
+      : `${outro} passa a vencer ${p.equilibrio >= p.atual ? 'acima de' : 'abaixo de'} ${p.equilibrio.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}/mês (margem de ${Math.abs(p.margemSeguranca || 0).toFixed(1)}%).`;
+    if (p.limiteElegibilidade === null) return custo;
+    return `${custo} O Simples deixa de ser elegível ${p.limiteElegibilidade >= p.atual ? 'acima de' : 'abaixo de'} ${p.limiteElegibilidade.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}/mês.`;
+  };
+
+  // Plano do Fator R para os próximos 12 meses (apenas atividades sujeitas ao Fator R)
+  const planoFatorR = useMemo(() => {
+    if (serieFolha.length === 0 || (atividadePredominante !== 'servico_intellectual' && atividadePredominante !== 'hospitalar')) return null;
+    const receitaBase = simMonthlyBilling || statsMetrics.billing.avg;
+    const receitaPrevista = Array.from({ length: 12 }, (_, i) => receitaBase * Math.pow(1 + planoCrescimento / 100, i + 1));
+    const plano = planFatorR(serieFolha, receitaPrevista, atividadePredominante, planoAjuste, undefined, ruleSets);
+    return { ...plano, meses: plano.meses.map(m => ({ ...m, label: `${MONTH_NAMES[m.mes - 1].slice(0, 3)}/${String(m.ano).slice(2)}` })) };
+  }, [serieFolha, atividadePredominante, simMonthlyBilling, statsMetrics, planoCrescimento, planoAjuste, ruleSets]);
+
+  const handleExportPlanoFatorR = () => {
+    if (!planoFatorR) return;
+    const blob = new Blob(['\uFEFF' + exportPlanoFatorRCsv(planoFatorR)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `plano-fator-r-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const selectRuleVersion = (versao: string) => {
+    const selecionada = ruleVersions.find(v => v.regras.versao === versao);
+    setAdminVersao(versao);
+    setAdminJson(selecionada ? JSON.stringify(selecionada.regras, null, 2) : '');
+    setAdminErrors([]);
+    setAdminMessage(null);
+  };
+
+  const parseAdminJson = (): TaxRuleSet | null => {
+    try {
+      const candidate = JSON.parse(adminJson);
+      const erros = validateRuleSet(candidate);
+      setAdminErrors(erros);
+      return erros.length === 0 ? candidate as TaxRuleSet : null;
+    } catch (err: any) {
+      setAdminErrors([`JSON inválido: ${err.message}`]);
+      return null;
+    }
+  };
 
-    aggregated.folha.percentualSobreFolha = mPayroll > 0 ? (aggregated.folha.totalEncargos / mPayroll) * 100 : 0;
+  const handlePublishRuleSet = async () => {
+    const regras = parseAdminJson();
+    if (!regras || !user) return;
 
-    aggregated.simples.aliquotaEfetiva = mBilling > 0 ? (aggregated.simples.dasTotal / mBilling) * 100 : 0;
-    aggregated.lucroPresumido.aliquotaEfetiva = mBilling > 0 ? (aggregated.lucroPresumido.total / mBilling) * 100 : 0;
+    setIsPublishing(true);
+    setAdminMessage(null);
+    try {
+      await publishRuleSet(regras, user.id);
+      const versao: TaxRuleVersion = { regras, status: 'publicado', publicadoEm: new Date().toISOString(), publicadoPor: user.id };
+      setRuleVersions(prev => [...prev.filter(v => v.regras.versao !== regras.versao), versao]
+        .sort((a, b) => a.regras.vigenciaInicio.localeCompare(b.regras.vigenciaInicio)));
+      setAdminVersao(regras.versao);
+      setAdminMessage(`Versão ${regras.versao} publicada com vigência a partir de ${regras.vigenciaInicio}.`);
+    } catch (err: any) {
+      setAdminErrors([err.message]);
+    } finally {
+      setIsPublishing(false);
+    }
+  };
 
-    // Choose suggestion based on totals
-    aggregated.sugestao = aggregated.lucroPresumido.total < aggregated.simples.dasTotal
-      ? (simIsB2B ? "Lucro Presumido (Considere Regime Híbrido)" : "Lucro Presumido")
-      : "Simples Nacional";
+  const handleSaveSimulation = async () => {
+    if (!user) return;
 
-    return aggregated;
-  }, [simRbt12, simMonthlyBilling, simMonthlyPayroll, simMonthlyProLabore, simActivity, simIsB2B, totalBilling, totalPayroll, simActivities, simIssRate, simRatRate, simTerceirosRate, statsMetrics.proLabore.avg]);
+    setIsSaving(true);
+    setSaveMessage(null);
+    try {
+      await saveSimulation({
+        empresa: companyInfo.name || brasilApiData?.razao_social || '',
+        cnpj: companyInfo.cnpj || brasilApiData?.cnpj || '',
+        competencia: simCompetencia,
+        resultado: taxSimulation
+      }, user.id);
+      setSaveMessage(`Simulação salva (regras v${taxSimulation.versaoRegras}).`);
+    } catch (err: any) {
+      setSaveMessage(err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
 
   if (loading) {
     return (
@@ -426,6 +930,14 @@ const App: React.FC = () => {
               >
                 Relatório
               </button>
+              {isAdmin && (
+                <button
+                  onClick={() => setActiveTab('admin-rules')}
+                  className={`px-4 py-1.5 rounded-lg text-xs font-bold transition-all flex items-center gap-1 ${activeTab === 'admin-rules' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                >
+                  <Settings size={12} /> Regras
+                </button>
+              )}
             </nav>
             <div className="h-8 w-[1px] bg-slate-200 hidden md:block"></div>
             <button
@@ -616,11 +1128,11 @@ const App: React.FC = () => {
                   <div className="bg-white p-8 rounded-[2rem] border border-slate-100 shadow-xl shadow-slate-200/50">
                     <h3 className="text-xl font-black mb-8 text-slate-800 flex items-center gap-2">
                       <div className="w-1.5 h-6 bg-orange-500 rounded-full"></div>
-                      Curva do Fator R Mensal
+                      Curva do Fator R (12 Meses Anteriores)
                     </h3>
                     <div className="h-[350px]">
                       <ResponsiveContainer width="100%" height="100%">
-                        <LineChart data={monthlyStats} margin={{ top: 10, right: 10, bottom: 0, left: 0 }}>
+                        <LineChart data={competenceLedger} margin={{ top: 10, right: 10, bottom: 0, left: 0 }}>
                           <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
                           <XAxis dataKey="month" stroke="#94a3b8" fontSize={11} tickLine={false} axisLine={false} dy={10} />
                           <YAxis stroke="#94a3b8" fontSize={11} tickLine={false} axisLine={false} tickFormatter={(v) => `${v}%`} />
@@ -630,7 +1142,7 @@ const App: React.FC = () => {
                           />
                           <Line
                             type="stepAfter"
-                            dataKey="factorR"
+                            dataKey="fatorR"
                             stroke="#f59e0b"
                             strokeWidth={4}
                             dot={{ r: 6, fill: '#f59e0b', strokeWidth: 3, stroke: '#fff' }}
@@ -663,52 +1175,166 @@ const App: React.FC = () => {
                           <th className="px-8 py-5 text-rose-700">Pró-Labore</th>
                           <th className="px-8 py-5">Folha Total (B)</th>
                           <th className="px-8 py-5">FGTS (8%)</th>
-                          <th className="px-8 py-5">Fator R</th>
+                          <th className="px-8 py-5">RBT12</th>
+                          <th className="px-8 py-5">Fator R (12m)</th>
+                          <th className="px-8 py-5">Anexo</th>
+                          <th className="px-8 py-5">Alíq. Ef.</th>
+                          <th className="px-8 py-5">DAS</th>
                         </tr>
                       </thead>
                       <tbody className="divide-y divide-slate-50">
-                        {monthlyStats.map((stat, idx) => (
-                          <tr key={idx} className="group hover:bg-indigo-50/30 transition-all duration-300">
-                            <td className="px-8 py-6 font-bold text-slate-700">{stat.month}</td>
-                            <td className="px-8 py-6 text-slate-500 font-medium">
-                              {stat.billing.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
-                            </td>
-                            <td className="px-8 py-6 text-pink-600/70 font-bold">
-                              {stat.salaries.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
-                            </td>
-                            <td className="px-8 py-6 text-rose-700/70 font-bold">
-                              {stat.proLabore.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
-                            </td>
-                            <td className="px-8 py-6 text-slate-500 font-black">
-                              {stat.payroll.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
-                            </td>
-                            <td className="px-8 py-6 text-slate-500 font-medium">
-                              {stat.fgts.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
-                            </td>
-                            <td className="px-8 py-6">
-                              <span className={`text-sm font-black px-3 py-1 rounded-lg ${stat.factorR >= 28 ? 'text-emerald-600 bg-emerald-50' : 'text-rose-600 bg-rose-50'}`}>
-                                {stat.factorR.toFixed(2)}%
-                              </span>
-                            </td>
-                            <td className="px-8 py-6">
-                              {stat.factorR >= 28 ? (
-                                <div className="flex items-center gap-2">
-                                  <div className="w-2 h-2 bg-emerald-500 rounded-full"></div>
-                                  <span className="text-[11px] font-black text-emerald-700 uppercase tracking-tighter">ANEXO III (Econômico)</span>
-                                </div>
-                              ) : (
-                                <div className="flex items-center gap-2">
-                                  <div className="w-2 h-2 bg-rose-500 rounded-full"></div>
-                                  <span className="text-[11px] font-black text-rose-700 uppercase tracking-tighter">ANEXO V (Caro)</span>
-                                </div>
-                              )}
-                            </td>
-                          </tr>
-                        ))}
+                        {monthlyStats.map((stat, idx) => {
+                          const ledger = competenceLedger.find(l => l.month === stat.month);
+                          return (
+                            <tr key={idx} className={`group hover:bg-indigo-50/30 transition-all duration-300 ${ledger?.mudouAnexo ? 'bg-amber-50/40' : ''}`}>
+                              <td className="px-8 py-6 font-bold text-slate-700">{stat.month}</td>
+                              <td className="px-8 py-6 text-slate-500 font-medium">
+                                {stat.billing.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
+                              </td>
+                              <td className="px-8 py-6 text-pink-600/70 font-bold">
+                                {stat.salaries.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
+                              </td>
+                              <td className="px-8 py-6 text-rose-700/70 font-bold">
+                                {stat.proLabore.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
+                              </td>
+                              <td className="px-8 py-6 text-slate-500 font-black">
+                                {stat.payroll.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
+                              </td>
+                              <td className="px-8 py-6 text-slate-500 font-medium">
+                                {stat.fgts.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
+                              </td>
+                              <td className="px-8 py-6 text-slate-500 font-medium">
+                                {ledger?.rbt12.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
+                                {ledger?.rbt12Proporcional && (
+                                  <span className="block text-[9px] font-black text-amber-600 uppercase" title="Histórico inferior a 12 meses: valor anualizado">
+                                    Proporcional ({ledger.mesesHistorico}m)
+                                  </span>
+                                )}
+                              </td>
+                              <td className="px-8 py-6">
+                                <span className={`text-sm font-black px-3 py-1 rounded-lg ${(ledger?.fatorR ?? 0) >= 28 ? 'text-emerald-600 bg-emerald-50' : 'text-rose-600 bg-rose-50'}`}>
+                                  {(ledger?.fatorR ?? 0).toFixed(2)}%
+                                </span>
+                              </td>
+                              <td className="px-8 py-6">
+                                {ledger && (
+                                  <div className="flex items-center gap-2">
+                                    <div className={`w-2 h-2 rounded-full ${ledger.anexo === 'V' ? 'bg-rose-500' : 'bg-emerald-500'}`}></div>
+                                    <span className={`text-[11px] font-black uppercase tracking-tighter ${ledger.anexo === 'V' ? 'text-rose-700' : 'text-emerald-700'}`}>
+                                      ANEXO {ledger.anexo}
+                                    </span>
+                                    {ledger.mudouAnexo && (
+                                      <span className="text-[9px] font-black text-amber-700 bg-amber-100 px-1.5 py-0.5 rounded">MUDOU</span>
+                                    )}
+                                  </div>
+                                )}
+                              </td>
+                              <td className="px-8 py-6 text-slate-500 font-bold">{(ledger?.aliquotaEfetiva ?? 0).toFixed(2)}%</td>
+                              <td className="px-8 py-6 text-slate-700 font-black">
+                                {(ledger?.das ?? 0).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
+                              </td>
+                            </tr>
+                          );
+                        })}
                       </tbody>
                     </table>
                   </div>
                 </div>
+
+                {planoFatorR && (
+                  <div className="bg-white rounded-[2rem] border border-slate-100 shadow-2xl overflow-hidden">
+                    <div className="p-8 border-b border-slate-50 flex flex-col md:flex-row md:items-center justify-between gap-4">
+                      <div>
+                        <h3 className="text-2xl font-black text-slate-800">Plano do Fator R (12 meses)</h3>
+                        <p className="text-sm text-slate-400 font-medium">Folha mínima por mês para manter a competência seguinte no Anexo III</p>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-3">
+                        <select
+                          value={planoAjuste}
+                          onChange={(e) => setPlanoAjuste(e.target.value as AjusteFatorR)}
+                          className="p-2.5 bg-slate-50 border border-slate-200 rounded-xl text-xs font-bold text-slate-700 outline-none"
+                        >
+                          <option value="proLabore">Ajustar pró-labore</option>
+                          <option value="folha">Ajustar salários</option>
+                        </select>
+                        <div className="flex items-center gap-2 p-2.5 bg-slate-50 border border-slate-200 rounded-xl">
+                          <span className="text-[10px] font-black text-slate-400 uppercase">Cresc. a.m.</span>
+                          <input
+                            type="number" step="0.5"
+                            value={planoCrescimento}
+                            onChange={(e) => setPlanoCrescimento(Number(e.target.value))}
+                            className="w-14 bg-transparent text-xs font-bold text-slate-700 outline-none"
+                          />
+                          <span className="text-[10px] font-black text-slate-400">%</span>
+                        </div>
+                        <button
+                          onClick={handleExportPlanoFatorR}
+                          className="bg-indigo-50 text-indigo-700 px-6 py-2.5 rounded-xl text-sm font-black hover:bg-indigo-100 transition-colors flex items-center gap-2 border border-indigo-100"
+                        >
+                          EXPORTAR CSV <Upload size={16} className="rotate-180" />
+                        </button>
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 p-8 pb-0">
+                      <div className="p-4 bg-emerald-50 rounded-2xl border border-emerald-100">
+                        <p className="text-[10px] font-black text-emerald-600 uppercase mb-1">Economia de DAS x Anexo V</p>
+                        <p className="text-xl font-black text-emerald-700">{planoFatorR.economiaDas.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</p>
+                      </div>
+                      <div className="p-4 bg-slate-50 rounded-2xl">
+                        <p className="text-[10px] font-black text-slate-400 uppercase mb-1">Ajuste de Folha no Período</p>
+                        <p className="text-xl font-black text-slate-800">{planoFatorR.ajusteTotal.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</p>
+                        {planoFatorR.inssAdicional !== 0 && (
+                          <p className="text-[10px] text-slate-500 font-bold">INSS do sócio: {planoFatorR.inssAdicional.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</p>
+                        )}
+                      </div>
+                      <div className="p-4 bg-slate-900 rounded-2xl text-white">
+                        <p className="text-[10px] font-black text-indigo-300 uppercase mb-1">Economia Líquida</p>
+                        <p className="text-xl font-black">{planoFatorR.economiaLiquida.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</p>
+                        {planoFatorR.mesesForaDoAnexoIII > 0 && (
+                          <p className="text-[10px] text-amber-300 font-bold">{planoFatorR.mesesForaDoAnexoIII} competência(s) já definidas pelo histórico no Anexo V</p>
+                        )}
+                      </div>
+                    </div>
+
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-left">
+                        <thead>
+                          <tr className="bg-slate-50/50 text-slate-400 text-[10px] uppercase tracking-[0.2em] font-black">
+                            <th className="px-8 py-5">Competência</th>
+                            <th className="px-8 py-5">Receita Prevista</th>
+                            <th className="px-8 py-5 text-rose-700">Pró-Labore</th>
+                            <th className="px-8 py-5 text-pink-600">Salários</th>
+                            <th className="px-8 py-5">Fator R (sem / com)</th>
+                            <th className="px-8 py-5">Anexo</th>
+                            <th className="px-8 py-5">DAS Anexo V</th>
+                            <th className="px-8 py-5">DAS Plano</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-50">
+                          {planoFatorR.meses.map((m, idx) => (
+                            <tr key={idx} className="hover:bg-indigo-50/30 transition-all">
+                              <td className="px-8 py-4 font-bold text-slate-700">{m.label}</td>
+                              <td className="px-8 py-4 text-slate-500 font-medium">{m.receita.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</td>
+                              <td className="px-8 py-4 text-rose-700/80 font-bold">{m.proLaborePlanejado.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</td>
+                              <td className="px-8 py-4 text-pink-600/80 font-bold">{m.salariosPlanejados.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</td>
+                              <td className="px-8 py-4 text-xs font-black">
+                                <span className="text-slate-400">{m.fatorRSemPlano.toFixed(1)}%</span>
+                                <span className="text-slate-300 mx-1">→</span>
+                                <span className={m.fatorRComPlano >= 28 ? 'text-emerald-600' : 'text-rose-600'}>{m.fatorRComPlano.toFixed(1)}%</span>
+                              </td>
+                              <td className="px-8 py-4">
+                                <span className={`text-[11px] font-black uppercase ${m.anexoComPlano === 'V' ? 'text-rose-700' : 'text-emerald-700'}`}>ANEXO {m.anexoComPlano}</span>
+                              </td>
+                              <td className="px-8 py-4 text-slate-500 font-medium">{m.dasAnexoV.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</td>
+                              <td className="px-8 py-4 text-slate-700 font-black">{m.dasComPlano.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                )}
               </div>
             )}
           </>
@@ -801,6 +1427,47 @@ const App: React.FC = () => {
                   </div>
                 </div>
 
+                {impedimentosSimples && (
+                  <div className="bg-white p-8 rounded-[2rem] border border-slate-100 shadow-xl md:col-span-2">
+                    <div className="flex flex-wrap justify-between items-start gap-4 mb-6">
+                      <h4 className="text-lg font-black text-slate-800 flex items-center gap-2">
+                        <div className="w-1.5 h-6 bg-indigo-600 rounded-full"></div>
+                        IMPEDIMENTOS AO SIMPLES NACIONAL
+                      </h4>
+                      <span className={`px-4 py-1.5 rounded-full text-xs font-black uppercase tracking-wider ${impedimentosSimples.elegivel ? 'bg-emerald-100 text-emerald-700' : 'bg-rose-100 text-rose-700'}`}>
+                        {impedimentosSimples.elegivel ? 'Sem impedimentos' : 'Impedido'}
+                      </span>
+                    </div>
+                    <div className="space-y-3">
+                      {impedimentosSimples.itens.map(item => (
+                        <div key={item.codigo} className="flex gap-4 items-start p-4 bg-slate-50 rounded-xl">
+                          {item.status === 'ok' ? (
+                            <CheckCircle2 size={18} className="text-emerald-500 shrink-0 mt-0.5" />
+                          ) : (
+                            <AlertCircle size={18} className={`shrink-0 mt-0.5 ${item.status === 'impedido' ? 'text-rose-500' : 'text-amber-500'}`} />
+                          )}
+                          <div className="flex-1">
+                            <div className="flex flex-wrap justify-between gap-2">
+                              <p className="font-bold text-slate-800 text-sm">{item.descricao}</p>
+                              <span className="text-[10px] font-black text-slate-400 uppercase">{item.fundamento}</span>
+                            </div>
+                            <p className="text-xs text-slate-500 font-medium mt-1">{item.detalhe}</p>
+                            {item.codigo === 'participacao' && (
+                              <input
+                                type="text"
+                                placeholder="Receita anual das outras empresas (R$)"
+                                value={receitaOutrasEmpresas !== undefined ? formatRawToCurrency(receitaOutrasEmpresas) : ''}
+                                onChange={(e) => setReceitaOutrasEmpresas(e.target.value ? parseCurrencyToNumber(e.target.value) : undefined)}
+                                className="mt-2 w-full md:w-72 p-2 bg-white border-2 border-slate-100 rounded-lg text-xs font-bold text-slate-700 focus:border-indigo-500 transition-all outline-none"
+                              />
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 <div className="bg-white p-8 rounded-[2rem] border border-slate-100 shadow-xl">
                   <h4 className="text-lg font-black text-slate-800 mb-6 flex items-center gap-2">
                     <div className="w-1.5 h-6 bg-emerald-500 rounded-full"></div>
@@ -930,12 +1597,22 @@ const App: React.FC = () => {
                               </button>
                             </div>
                             <p className="text-[10px] font-bold text-slate-600 mb-2 leading-tight">{act.label}</p>
+                            {act.confirmacao && (
+                              <div className="flex items-start gap-1 mb-2 text-amber-600">
+                                <AlertCircle size={10} className="shrink-0 mt-0.5" />
+                                <p className="text-[9px] font-bold leading-tight">Confirmar enquadramento: {act.confirmacao}</p>
+                              </div>
+                            )}
+                            {notasEnquadramento(act).length > 0 && (
+                              <p className="text-[9px] font-bold text-indigo-500 mb-2 leading-tight">{notasEnquadramento(act).join(' · ')}</p>
+                            )}
                             <div className="flex gap-2">
                               <select
                                 value={act.activity}
                                 onChange={(e: any) => {
                                   const newActs = [...simActivities];
-                                  newActs[idx].activity = e.target.value;
+                                  // O enquadramento da subclasse deixa de valer com a atividade escolhida à mão
+                                  newActs[idx] = { ...newActs[idx], activity: e.target.value, presuncao: undefined, tributoConsumo: undefined, confirmacao: undefined };
                                   setSimActivities(newActs);
                                 }}
                                 className="flex-1 p-1.5 bg-white border border-slate-200 rounded-md text-[10px] font-bold text-slate-700 outline-none"
@@ -944,6 +1621,7 @@ const App: React.FC = () => {
                                 <option value="servico_geral">Geral (III)</option>
                                 <option value="comercio">Comércio (I)</option>
                                 <option value="industria">Indústria (II)</option>
+                                <option value="servico_anexo_iv">Construção/Limpeza/Vigilância/Advocacia (IV)</option>
                                 <option value="hospitalar">Hospitalar</option>
                               </select>
                               <div className="w-20 relative">
@@ -960,6 +1638,53 @@ const App: React.FC = () => {
                                 <span className="absolute right-1.5 top-1.5 text-[10px] font-bold text-slate-400">%</span>
                               </div>
                             </div>
+                            <div className="flex items-center gap-2 mt-2">
+                              <span className="text-[9px] font-black text-slate-400 uppercase shrink-0">CBS/IBS</span>
+                              <select
+                                value={act.reducaoCbsIbs || 0}
+                                title={act.fundamentoCbsIbs}
+                                onChange={(e) => {
+                                  const newActs = [...simActivities];
+                                  newActs[idx].reducaoCbsIbs = Number(e.target.value) as ReducaoCbsIbs;
+                                  newActs[idx].fundamentoCbsIbs = 'Ajuste manual';
+                                  setSimActivities(newActs);
+                                }}
+                                className="flex-1 p-1.5 bg-white border border-slate-200 rounded-md text-[10px] font-bold text-slate-700 outline-none"
+                              >
+                                <option value={0}>Alíquota padrão</option>
+                                <option value={0.3}>Redução de 30%</option>
+                                <option value={0.6}>Redução de 60%</option>
+                                <option value={1}>Alíquota zero</option>
+                              </select>
+                            </div>
+                            {act.fundamentoCbsIbs && (act.reducaoCbsIbs || 0) > 0 && (
+                              <p className="text-[9px] text-emerald-600 font-bold mt-1 leading-tight">{act.fundamentoCbsIbs}</p>
+                            )}
+                            <div className="grid grid-cols-3 gap-1.5 mt-2">
+                              {([
+                                { campo: 'st', label: 'ICMS-ST', visivel: act.activity === 'comercio' || act.activity === 'industria' },
+                                { campo: 'monofasico', label: 'Monofásico', visivel: act.activity === 'comercio' || act.activity === 'industria' },
+                                { campo: 'exportacao', label: 'Exportação', visivel: true }
+                              ] as { campo: keyof SegregacaoReceita; label: string; visivel: boolean }[]).filter(c => c.visivel).map(c => (
+                                <div key={c.campo} className="relative">
+                                  <label className="text-[8px] font-black text-slate-400 uppercase block">{c.label}</label>
+                                  <input
+                                    type="number" min="0" max="100"
+                                    value={Math.round((act.segregacao?.[c.campo] || 0) * 100)}
+                                    onChange={(e) => {
+                                      const newActs = [...simActivities];
+                                      newActs[idx].segregacao = {
+                                        ...newActs[idx].segregacao,
+                                        [c.campo]: Math.min(100, Math.max(0, Number(e.target.value))) / 100
+                                      };
+                                      setSimActivities(newActs);
+                                    }}
+                                    className="w-full p-1 pr-4 bg-white border border-slate-200 rounded-md text-[10px] font-bold text-slate-700 outline-none"
+                                  />
+                                  <span className="absolute right-1 bottom-1 text-[9px] font-bold text-slate-400">%</span>
+                                </div>
+                              ))}
+                            </div>
                           </div>
                         )) : (
                           <div className="p-3 bg-slate-50 border-2 border-dashed border-slate-200 rounded-xl text-center">
@@ -968,6 +1693,25 @@ const App: React.FC = () => {
                         )}
                       </div>
 
+                      {simActivities.some(a => a.cnae) && (
+                        <p className="text-[9px] font-bold text-slate-400 mb-2 leading-tight">
+                          Mapa parcial de CNAE: só {TOTAL_SUBCLASSES_MAPEADAS} subclasses têm enquadramento próprio; as demais seguem a classe ou a divisão e devem ser confirmadas.
+                        </p>
+                      )}
+                      {simActivities.length > 0 && taxSimulation.errosDistribuicao.map(erro => (
+                        <p key={erro} className="text-[10px] bg-rose-50 text-rose-700 p-2 rounded-lg font-bold mb-2">{erro}</p>
+                      ))}
+                      {taxSimulation.linhas.length > 1 && (
+                        <div className="space-y-1 mb-4">
+                          {taxSimulation.linhas.map((l, idx) => (
+                            <div key={idx} className="flex justify-between text-[9px] font-bold text-slate-500">
+                              <span className="truncate max-w-[110px]">{l.linha.label || l.linha.activity}</span>
+                              <span>Anexo {l.anexo} · LP {l.presuncaoIrpj.toFixed(1)}% · DAS {l.resultado.simples.dasTotal.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+
                       {simActivities.length === 0 && (
                         <select
                           value={simActivity}
@@ -978,6 +1722,7 @@ const App: React.FC = () => {
                           <option value="servico_geral">Serviços Gerais (Anexo III)</option>
                           <option value="comercio">Comércio (Anexo I)</option>
                           <option value="industria">Indústria (Anexo II)</option>
+                          <option value="servico_anexo_iv">Construção, Limpeza, Vigilância e Advocacia (Anexo IV)</option>
                           <option value="hospitalar">Serviços Hospitalares</option>
                         </select>
                       )}
@@ -1000,6 +1745,9 @@ const App: React.FC = () => {
                           <button onClick={() => setSimMonthlyBilling(Math.round(statsMetrics.billing.avg))} className="px-2 py-0.5 text-[8px] font-black bg-slate-100 hover:bg-indigo-100 text-slate-500 hover:text-indigo-600 rounded-md transition-colors uppercase">Média</button>
                           <button onClick={() => setSimMonthlyBilling(Math.round(statsMetrics.billing.latest))} className="px-2 py-0.5 text-[8px] font-black bg-slate-100 hover:bg-indigo-100 text-slate-500 hover:text-indigo-600 rounded-md transition-colors uppercase">Último</button>
                           <button onClick={() => setSimMonthlyBilling(Math.round(statsMetrics.billing.median))} className="px-2 py-0.5 text-[8px] font-black bg-slate-100 hover:bg-indigo-100 text-slate-500 hover:text-indigo-600 rounded-md transition-colors uppercase">Mediana</button>
+                          {projecaoFaturamento && (
+                            <button onClick={aplicarProjecao} title="Usa a média e a soma dos próximos 12 meses projetados como faturamento mensal e RBT12" className="px-2 py-0.5 text-[8px] font-black bg-indigo-50 hover:bg-indigo-100 text-indigo-600 rounded-md transition-colors uppercase">Projeção</button>
+                          )}
                         </div>
                       </div>
                       <input
@@ -1042,6 +1790,56 @@ const App: React.FC = () => {
                       />
                     </div>
 
+                    <div className="pt-4 border-t border-slate-50">
+                      <label className="text-[10px] font-black text-slate-400 uppercase tracking-wider block mb-2">Competência Simulada</label>
+                      <input
+                        type="month"
+                        min="2024-01"
+                        max="2033-12"
+                        value={simCompetencia}
+                        onChange={(e) => e.target.value && setSimCompetencia(e.target.value)}
+                        className="w-full p-3 bg-slate-50 border-2 border-slate-100 rounded-xl text-sm font-bold text-slate-700 focus:border-indigo-500 transition-all outline-none"
+                      />
+                      <p className="text-[9px] text-slate-400 font-medium mt-1">
+                        Regras v{regrasVigentes.versao} (vigência {new Date(`${regrasVigentes.vigenciaInicio}T00:00:00`).toLocaleDateString('pt-BR')}): {regrasVigentes.descricao}
+                      </p>
+                      {ruleSetsError && (
+                        <p className="text-[9px] text-rose-600 font-bold mt-1 flex items-center gap-1"><AlertCircle size={10} /> {ruleSetsError}</p>
+                      )}
+                    </div>
+
+                    <div className="pt-4 border-t border-slate-50 space-y-4">
+                      <div>
+                        <label className="text-[10px] font-black text-slate-400 uppercase tracking-wider block mb-2">Despesas Dedutíveis (Lucro Real)</label>
+                        <input
+                          type="text"
+                          value={formatRawToCurrency(simMonthlyExpenses)}
+                          onChange={(e) => setSimMonthlyExpenses(parseCurrencyToNumber(e.target.value))}
+                          className="w-full p-3 bg-slate-50 border-2 border-slate-100 rounded-xl text-sm font-bold text-slate-700 focus:border-amber-500 transition-all outline-none"
+                        />
+                        <p className="text-[9px] text-slate-400 font-medium mt-1">Custos e despesas mensais, exceto folha.</p>
+                      </div>
+                      <div>
+                        <label className="text-[10px] font-black text-slate-400 uppercase tracking-wider block mb-2">Insumos c/ Crédito PIS/COFINS</label>
+                        <input
+                          type="text"
+                          value={formatRawToCurrency(simCreditableInputs)}
+                          onChange={(e) => setSimCreditableInputs(parseCurrencyToNumber(e.target.value))}
+                          className="w-full p-3 bg-slate-50 border-2 border-slate-100 rounded-xl text-sm font-bold text-slate-700 focus:border-amber-500 transition-all outline-none"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-[10px] font-black text-slate-400 uppercase tracking-wider block mb-2">Prejuízo Fiscal Acumulado</label>
+                        <input
+                          type="text"
+                          value={formatRawToCurrency(simPrejuizoFiscal)}
+                          onChange={(e) => setSimPrejuizoFiscal(parseCurrencyToNumber(e.target.value))}
+                          className="w-full p-3 bg-slate-50 border-2 border-slate-100 rounded-xl text-sm font-bold text-slate-700 focus:border-amber-500 transition-all outline-none"
+                        />
+                        <p className="text-[9px] text-slate-400 font-medium mt-1">Compensação limitada a 30% do lucro do período.</p>
+                      </div>
+                    </div>
+
                     <div className="pt-4 border-t border-slate-50 space-y-4">
                       <div className="flex items-center justify-between">
                         <span className="text-[10px] font-black text-slate-400 uppercase tracking-wider">Perfil de Cliente B2B</span>
@@ -1055,31 +1853,98 @@ const App: React.FC = () => {
 
                       <div>
                         <div className="flex justify-between items-center mb-1">
-                          <label className="text-[10px] font-black text-slate-400 uppercase tracking-wider block">Alíquota ISSQN (LP)</label>
+                          <label className="text-[10px] font-black text-slate-400 uppercase tracking-wider block">
+                            Alíquota ISSQN (LP){issEstimativa && <span className="ml-1 text-amber-600">ESTIMATIVA</span>}
+                          </label>
                           <span className="text-[10px] font-black text-indigo-600">{(simIssRate * 100).toFixed(2)}%</span>
                         </div>
                         <input
                           type="range"
-                          min="0.02"
-                          max="0.05"
+                          min={ISS_MINIMO}
+                          max={ISS_MAXIMO}
                           step="0.0001"
                           value={simIssRate}
-                          onChange={(e) => setSimIssRate(Number(e.target.value))}
-                          className="w-full h-1.5 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                          onChange={(e) => {
+                            setSimIssRate(Number(e.target.value));
+                            setIssFundamento('Ajuste manual');
+                            setIssEstimativa(false);
+                          }}
+                          disabled={issFixoAtivo}
+                          className="w-full h-1.5 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-indigo-600 disabled:opacity-40"
                         />
                         <div className="flex justify-between mt-1">
                           <span className="text-[8px] font-bold text-slate-400">2%</span>
                           <span className="text-[8px] font-bold text-slate-400">5%</span>
                         </div>
+                        {issFundamento && <p className={`text-[9px] font-bold mt-1 ${issEstimativa ? 'text-amber-600' : 'text-slate-400'}`}>{issFundamento}</p>}
+                      </div>
+
+                      {(profissaoUniprofissional || issFixoAtivo) && (
+                        <div className="p-3 bg-slate-50 rounded-xl border border-slate-100 space-y-2">
+                          <div className="flex items-center justify-between">
+                            <span className="text-[10px] font-black text-slate-400 uppercase tracking-wider">ISS Fixo (Uniprofissional)</span>
+                            <button
+                              onClick={() => setIssFixoAtivo(!issFixoAtivo)}
+                              className={`w-10 h-5 rounded-full relative transition-all ${issFixoAtivo ? 'bg-indigo-600' : 'bg-slate-200'}`}
+                            >
+                              <div className={`absolute top-1 w-3 h-3 bg-white rounded-full transition-all ${issFixoAtivo ? 'right-1' : 'left-1'}`}></div>
+                            </button>
+                          </div>
+                          <p className="text-[9px] font-bold text-slate-400 leading-tight">
+                            {profissaoUniprofissional || 'Profissão regulamentada'}: valor fixo por profissional habilitado no LP e no LR (DL 406/68, art. 9º, §§ 1º e 3º), se o município admitir a sociedade como uniprofissional.
+                          </p>
+                          {issFixoAtivo && (
+                            <div className="grid grid-cols-2 gap-2">
+                              <div>
+                                <label className="text-[8px] font-black text-slate-400 uppercase block">Profissionais</label>
+                                <input
+                                  type="number" min="1"
+                                  value={issFixoProfissionais}
+                                  onChange={(e) => setIssFixoProfissionais(Math.max(1, Number(e.target.value)))}
+                                  className="w-full mt-1 p-2 bg-white border border-slate-200 rounded-lg text-xs font-bold text-slate-700 outline-none"
+                                />
+                              </div>
+                              <div>
+                                <label className="text-[8px] font-black text-slate-400 uppercase block">R$ / Profissional / Mês</label>
+                                <input
+                                  type="number" min="0"
+                                  value={issFixoValor}
+                                  onChange={(e) => setIssFixoValor(Math.max(0, Number(e.target.value)))}
+                                  className="w-full mt-1 p-2 bg-white border border-slate-200 rounded-lg text-xs font-bold text-slate-700 outline-none"
+                                />
+                              </div>
+                            </div>
+                          )}
+                        </div>
+                      )}
+
+                      <div>
+                        <div className="flex justify-between items-center mb-1">
+                          <label className="text-[10px] font-black text-slate-400 uppercase tracking-wider block">Alíquota ICMS ({brasilApiData?.uf || 'UF'})</label>
+                          <span className="text-[10px] font-black text-indigo-600">{(simIcmsRate * 100).toFixed(1)}%</span>
+                        </div>
+                        <input
+                          type="range"
+                          min="0.07"
+                          max="0.25"
+                          step="0.005"
+                          value={simIcmsRate}
+                          onChange={(e) => setSimIcmsRate(Number(e.target.value))}
+                          className="w-full h-1.5 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                        />
+                        <div className="flex justify-between mt-1">
+                          <span className="text-[8px] font-bold text-slate-400">7%</span>
+                          <span className="text-[8px] font-bold text-slate-400">25%</span>
+                        </div>
                       </div>
 
                       <div className="pt-2">
                         <div className="flex justify-between items-center mb-1">
-                          <label className="text-[10px] font-black text-slate-400 uppercase tracking-wider block">Alíquota RAT (Folha)</label>
+                          <label className="text-[10px] font-black text-slate-400 uppercase tracking-wider block">RAT x FAP (Folha)</label>
                           <span className="text-[10px] font-black text-orange-600">{(simRatRate * 100).toFixed(1)}%</span>
                         </div>
                         <input
-                          type="range" min="0" max="3" step="0.5"
+                          type="range" min="0" max="6" step="0.1"
                           value={simRatRate * 100}
                           onChange={(e) => setSimRatRate(Number(e.target.value) / 100)}
                           className="w-full h-1.5 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-orange-600"
@@ -1099,6 +1964,33 @@ const App: React.FC = () => {
                         />
                       </div>
 
+                      <div className="pt-2">
+                        <label className="text-[10px] font-black text-slate-400 uppercase tracking-wider block mb-1">Desoneração (CPRB)</label>
+                        <select
+                          value={simCprbSetor}
+                          onChange={(e) => setSimCprbSetor(e.target.value)}
+                          className="w-full p-2 bg-slate-50 border border-slate-200 rounded-lg text-[10px] font-bold text-slate-700 outline-none"
+                        >
+                          <option value="">Não optante (20% sobre a folha)</option>
+                          {SETORES_CPRB.map(s => (
+                            <option key={s.codigo} value={s.codigo}>{s.descricao} ({(s.aliquota * 100).toFixed(1)}%)</option>
+                          ))}
+                        </select>
+                        {!simCprbSetor && brasilApiData?.cnae_fiscal && getSetorCprbByCnae(brasilApiData.cnae_fiscal.toString()) && (
+                          <button
+                            onClick={() => setSimCprbSetor(getSetorCprbByCnae(brasilApiData.cnae_fiscal.toString())!.codigo)}
+                            className="mt-1 text-[9px] font-black text-indigo-600 hover:text-indigo-800 uppercase"
+                          >
+                            CNAE elegível: {getSetorCprbByCnae(brasilApiData.cnae_fiscal.toString())!.descricao}
+                          </button>
+                        )}
+                        {simCprbSetor && (
+                          <p className="text-[9px] text-slate-500 font-bold mt-1">
+                            {regrasVigentes.versao}: CPRB a {(regrasVigentes.desoneracao.fatorCprb * 100).toFixed(0)}% da alíquota + {(regrasVigentes.desoneracao.aliquotaFolha * 100).toFixed(0)}% sobre a folha
+                          </p>
+                        )}
+                      </div>
+
                       <p className="text-[9px] text-slate-400 font-medium italic">* Impacta apenas Lucro Presumido e Anexo IV.</p>
                     </div>
                   </div>
@@ -1112,17 +2004,129 @@ const App: React.FC = () => {
                   <p className="text-sm font-bold mb-4 leading-relaxed">
                     Recomendamos: <span className="underline decoration-indigo-300 underline-offset-4">{taxSimulation.sugestao}</span>
                   </p>
+                  {(taxSimulation.simples.proximoSublimite || taxSimulation.simples.sublimiteExcedido) && (
+                    <div className="text-[10px] bg-amber-400/20 p-3 rounded-xl border border-amber-300/30 font-bold mb-3">
+                      {taxSimulation.simples.sublimiteExcedido
+                        ? `⚠️ Sublimite de ${limitesSimples.sublimite.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })} excedido${limitesSimples.excessoSublimiteAnoAnterior ? ' no ano anterior' : ''}. ICMS/ISS são recolhidos fora do DAS.`
+                        : limitesSimples.receitaAno > limitesSimples.sublimite
+                          ? `⚠️ Sublimite excedido em até 20%: ICMS/ISS saem do DAS em 01/${Number(simCompetencia.split('-')[0]) + 1}.`
+                          : `⚠️ Próximo do sublimite: faltam ${(limitesSimples.sublimite - limitesSimples.receitaAno).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })} de receita no ano para ICMS/ISS saírem do DAS.`}
+                    </div>
+                  )}
                   <div className="text-[10px] bg-white/10 p-3 rounded-xl border border-white/10 font-medium">
                     {taxSimulation.lucroPresumido.isLC224Applied
                       ? "⚠️ LC 224/2025: Faturamento > 5M ativa gatilho de +10% na presunção em 2026."
                       : "Sua empresa está abaixo do gatilho da LC 224 para 2026."}
                   </div>
                 </div>
+
+                <div className="bg-white p-6 rounded-[2rem] border border-slate-100 shadow-xl">
+                  <h4 className="text-xs font-black text-slate-800 uppercase tracking-widest mb-4 flex items-center gap-2">
+                    <ShieldCheck size={16} className="text-indigo-600" />
+                    Limites do Simples {simCompetencia.split('-')[0]}
+                  </h4>
+                  {limitesSimples.primeiroAno && (
+                    <p className="text-[10px] bg-indigo-50 text-indigo-700 p-2 rounded-lg font-bold mb-3">
+                      Início de atividade: {limitesSimples.mesesAtividade} {limitesSimples.mesesAtividade === 1 ? 'mês' : 'meses'} no ano, limites proporcionais
+                      e RBT12 anualizado de {(limitesSimples.rbt12Anualizado || 0).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}.
+                    </p>
+                  )}
+                  {[
+                    { titulo: 'Sublimite ICMS/ISS', limite: limitesSimples.sublimite },
+                    { titulo: 'Limite do Simples', limite: limitesSimples.limite }
+                  ].map(({ titulo, limite }) => {
+                    const uso = limite > 0 ? (limitesSimples.receitaAno / limite) * 100 : 0;
+                    return (
+                      <div key={titulo} className="mb-3">
+                        <div className="flex justify-between text-[10px] font-black uppercase text-slate-400 mb-1">
+                          <span>{titulo}</span>
+                          <span>{uso.toFixed(0)}% de {limite.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</span>
+                        </div>
+                        <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                          <div
+                            className={`h-full rounded-full ${uso > 120 ? 'bg-rose-500' : uso > 100 ? 'bg-amber-500' : 'bg-emerald-500'}`}
+                            style={{ width: `${Math.min(100, uso)}%` }}
+                          />
+                        </div>
+                      </div>
+                    );
+                  })}
+                  <p className="text-[10px] text-slate-500 font-medium">
+                    Receita acumulada no ano: {limitesSimples.receitaAno.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
+                  </p>
+                  {limitesSimples.excessoSublimiteAnoAnterior && (
+                    <p className="mt-3 p-3 rounded-xl text-[10px] font-bold bg-rose-50 text-rose-700">
+                      ICMS/ISS fora do DAS desde 01/{simCompetencia.split('-')[0]}: receita do ano anterior acima do sublimite.
+                      <span className="block text-[9px] opacity-70 mt-1">LC 123, art. 20, § 1º-A</span>
+                    </p>
+                  )}
+                  {limitesSimples.eventos.map(e => (
+                    <div
+                      key={e.tipo}
+                      className={`mt-3 p-3 rounded-xl text-[10px] font-bold ${e.efeito === 'imediato' ? 'bg-rose-50 text-rose-700' : 'bg-amber-50 text-amber-700'}`}
+                    >
+                      {e.tipo === 'limite' ? 'Exclusão do Simples' : 'ICMS/ISS fora do DAS'}: excesso de {e.excessoPercentual.toFixed(1)}%
+                      {e.efeito === 'imediato'
+                        ? (e.retroativo
+                          ? ` (acima de 20%), com efeitos retroativos ao início de atividade (${String(e.inicioEfeitos.mes).padStart(2, '0')}/${e.inicioEfeitos.ano}).`
+                          : ` (acima de 20%), com efeitos imediatos a partir de ${String(e.inicioEfeitos.mes).padStart(2, '0')}/${e.inicioEfeitos.ano}.`)
+                        : ` (até 20%), com efeitos apenas em 01/${e.inicioEfeitos.ano}; até lá permanece como está.`}
+                      <span className="block text-[9px] opacity-70 mt-1">{e.fundamento}</span>
+                    </div>
+                  ))}
+                </div>
+
+                {pontoEquilibrio && (
+                  <div className="bg-white p-6 rounded-[2rem] border border-slate-100 shadow-xl">
+                    <h4 className="text-xs font-black text-slate-800 uppercase tracking-widest mb-4 flex items-center gap-2">
+                      <Scale size={16} className="text-indigo-600" />
+                      Ponto de Equilíbrio Simples x LP
+                    </h4>
+                    {[
+                      { titulo: 'Faturamento mensal', ponto: pontoEquilibrio.faturamento },
+                      { titulo: 'Folha de salários', ponto: pontoEquilibrio.folha }
+                    ].map(({ titulo, ponto }) => (
+                      <div key={titulo} className="p-3 bg-slate-50 rounded-xl mb-3 last:mb-0">
+                        <div className="flex justify-between items-center">
+                          <span className="text-[10px] font-black text-slate-400 uppercase">{titulo}</span>
+                          {ponto.margemSeguranca !== null && (
+                            <span className={`text-[10px] font-black px-2 py-0.5 rounded ${Math.abs(ponto.margemSeguranca) < 15 ? 'bg-amber-100 text-amber-700' : 'bg-emerald-100 text-emerald-700'}`}>
+                              Margem {ponto.margemSeguranca > 0 ? '+' : ''}{ponto.margemSeguranca.toFixed(1)}%
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-lg font-black text-slate-800">
+                          {ponto.equilibrio !== null ? ponto.equilibrio.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' }) : 'Sem virada'}
+                        </p>
+                        {ponto.limiteElegibilidade !== null && (
+                          <p className="text-[10px] font-bold text-rose-600">
+                            Limite do Simples: {ponto.limiteElegibilidade.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
+                            {ponto.margemElegibilidade !== null && ` (${ponto.margemElegibilidade > 0 ? '+' : ''}${ponto.margemElegibilidade.toFixed(1)}%)`}
+                          </p>
+                        )}
+                        <p className="text-[10px] text-slate-500 font-medium leading-tight">{descreverEquilibrio(ponto)}</p>
+                        <div className="h-16 mt-2">
+                          <ResponsiveContainer width="100%" height="100%">
+                            <LineChart data={ponto.curva}>
+                              <XAxis dataKey="valor" hide />
+                              <Tooltip
+                                formatter={(value: number) => value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
+                                labelFormatter={(v) => Number(v).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
+                              />
+                              <Line type="monotone" dataKey="simples" name="Simples" stroke="#4f46e5" strokeWidth={2} dot={false} connectNulls={false} />
+                              <Line type="monotone" dataKey="presumido" name="LP" stroke="#f59e0b" strokeWidth={2} dot={false} />
+                            </LineChart>
+                          </ResponsiveContainer>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </aside>
 
               {/* Main Content - Dashboard */}
               <div className="flex-1 space-y-8">
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
                   {/* Card Simples Nacional */}
                   <div className={`bg-white p-8 rounded-[2.5rem] border-2 transition-all ${taxSimulation.sugestao.includes("Simples") ? 'border-emerald-500 ring-4 ring-emerald-50' : 'border-slate-100 shadow-xl shadow-slate-200/40'}`}>
                     <div className="flex justify-between items-start mb-8">
@@ -1168,8 +2172,22 @@ const App: React.FC = () => {
                           <Users size={14} className="text-slate-400" />
                           <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Reflexo Folha (INSS/RAT)</span>
                         </div>
-                        <span className="text-[10px] font-black text-emerald-600">INCLUSO NO DAS</span>
+                        {taxSimulation.simples.cppForaDoDas > 0 ? (
+                          <span className="text-[10px] font-black text-rose-600">+{taxSimulation.simples.cppForaDoDas.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })} (CPP FORA DO DAS)</span>
+                        ) : (
+                          <span className="text-[10px] font-black text-emerald-600">INCLUSO NO DAS</span>
+                        )}
                       </div>
+
+                      {taxSimulation.simples.sublimiteExcedido && (
+                        <div className="flex justify-between items-center">
+                          <div className="flex items-center gap-2">
+                            <AlertCircle size={14} className="text-amber-500" />
+                            <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">ICMS/ISS (Sublimite)</span>
+                          </div>
+                          <span className="text-[10px] font-black text-rose-600">+{(taxSimulation.simples.icmsForaDoDas + taxSimulation.simples.issForaDoDas + taxSimulation.simples.ibsForaDoDas).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })} FORA DO DAS</span>
+                        </div>
+                      )}
                     </div>
                   </div>
 
@@ -1209,8 +2227,11 @@ const App: React.FC = () => {
                         </div>
                         <div className="text-right text-[9px] space-y-0.5 font-bold text-slate-400">
                           <p>PIS/COFIN: 3.65%</p>
-                          <p>ISSQN (LP): {(simIssRate * 100).toFixed(1)}%</p>
-                          <p>IR/CS: {(taxSimulation.lucroPresumido.aliquotaEfetiva - 3.65 - (simIssRate * 100)).toFixed(2)}%</p>
+                          <p>ISSQN (LP): {(taxSimulation.lucroPresumido.issqn / (simMonthlyBilling || statsMetrics.billing.avg || 1) * 100).toFixed(1)}%</p>
+                          {taxSimulation.lucroPresumido.icms > 0 && (
+                            <p>ICMS (LP): {(taxSimulation.lucroPresumido.icms / (simMonthlyBilling || statsMetrics.billing.avg || 1) * 100).toFixed(1)}%</p>
+                          )}
+                          <p>IR/CS: {((taxSimulation.lucroPresumido.irpj + taxSimulation.lucroPresumido.csll) / (simMonthlyBilling || statsMetrics.billing.avg || 1) * 100).toFixed(2)}%</p>
                         </div>
                       </div>
 
@@ -1223,49 +2244,239 @@ const App: React.FC = () => {
                       </div>
                     </div>
                   </div>
-                </div>
-
-                {/* Timeline Transição Reforma */}
-                <div className="bg-white p-8 rounded-[2.5rem] border border-slate-100 shadow-xl shadow-slate-200/40">
-                  <h3 className="text-xl font-black text-slate-800 mb-8 flex items-center gap-3">
-                    <div className="w-1.5 h-6 bg-indigo-600 rounded-full"></div>
-                    LINHA DO TEMPO: REFORMA TRIBUTÁRIA
-                  </h3>
-
-                  <div className="grid grid-cols-1 md:grid-cols-4 gap-6 relative">
-                    <div className="hidden md:block absolute top-[52px] left-0 right-0 h-1 bg-slate-100 z-0"></div>
-
-                    <TimelineStep
-                      year="2026"
-                      title="Fase de Teste"
-                      desc="CBS (0.9%) + IBS (0.1%) incidem sobre o faturamento. Créditos em teste."
-                      active
-                      icon={<Zap size={18} />}
-                    />
-                    <TimelineStep
-                      year="2027"
-                      title="CBS Plena"
-                      desc="Extinção total do PIS/COFINS. Início do crédito financeiro pleno."
-                      icon={<ShieldCheck size={18} />}
-                    />
-                    <TimelineStep
-                      year="2029"
-                      title="Transição IBS"
-                      desc="Redução gradual do ICMS/ISS. Aumento proporcional do IBS."
-                      icon={<TrendingDown size={18} />}
-                    />
-                    <TimelineStep
-                      year="2033"
-                      title="Sistema Pleno"
-                      desc="IBS e CBS substituem totalmente os 5 tributos antigos."
-                      icon={<Clock size={18} />}
-                    />
-                  </div>
 
-                  <div className="mt-10 p-6 bg-indigo-50/50 border border-indigo-100 rounded-[2rem] flex flex-col md:flex-row gap-8 items-center">
-                    <div className="flex-1">
-                      <h4 className="font-black text-indigo-900 text-sm mb-2 uppercase tracking-tight">Impacto em 2026 (CBS + IBS)</h4>
-                      <p className="text-[11px] text-indigo-700 font-medium leading-relaxed">
+                  {/* Card Lucro Real */}
+                  <div className={`bg-white p-8 rounded-[2.5rem] border-2 transition-all ${taxSimulation.sugestao.includes("Real") ? 'border-emerald-500 ring-4 ring-emerald-50' : 'border-slate-100 shadow-xl shadow-slate-200/40'}`}>
+                    <div className="flex justify-between items-start mb-8">
+                      <div>
+                        <div className="bg-amber-50 text-amber-600 w-12 h-12 rounded-2xl flex items-center justify-center mb-4">
+                          <Scale size={24} />
+                        </div>
+                        <h3 className="text-2xl font-black text-slate-800">Lucro Real</h3>
+                        <p className="text-xs font-bold text-slate-400 uppercase tracking-widest mt-1">Lucro Contábil Ajustado</p>
+                      </div>
+                      <div className="text-right">
+                        <span className="px-4 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest bg-emerald-100 text-emerald-700">
+                          ELEGÍVEL
+                        </span>
+                      </div>
+                    </div>
+
+                    <div className="space-y-6">
+                      <div className="flex justify-between items-end">
+                        <div>
+                          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">Lucro Tributável</p>
+                          <p className="text-lg font-black text-slate-800">{taxSimulation.lucroReal.baseCalculo.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</p>
+                        </div>
+                        <div className="text-right">
+                          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">Alíquota Efetiva</p>
+                          <p className="text-lg font-black text-indigo-600">{taxSimulation.lucroReal.aliquotaEfetiva.toFixed(2)}%</p>
+                        </div>
+                      </div>
+
+                      <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100 flex justify-between items-center">
+                        <div>
+                          <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Total Impostos/Mês</p>
+                          <p className="text-xl font-black text-slate-800">{taxSimulation.lucroReal.total.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</p>
+                        </div>
+                        <div className="text-right text-[9px] space-y-0.5 font-bold text-slate-400">
+                          <p>{regrasVigentes.reforma.pisCofinsExtinto ? `CBS/IBS: ${((regrasVigentes.reforma.cbs + regrasVigentes.reforma.ibs) * 100).toFixed(2)}%` : 'PIS/COFINS: 9.25% (não-cum.)'}</p>
+                          <p>Créditos: {taxSimulation.lucroReal.creditosPisCofins.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</p>
+                          <p>IR/CS: {(taxSimulation.lucroReal.irpj + taxSimulation.lucroReal.csll).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</p>
+                        </div>
+                      </div>
+
+                      <div className="pt-4 border-t border-slate-100 flex justify-between items-center">
+                        <div className="flex items-center gap-2">
+                          <TrendingDown size={14} className="text-slate-400" />
+                          <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                            {taxSimulation.lucroReal.prejuizoGerado > 0 ? 'Prejuízo do Período' : 'Prejuízo Compensado'}
+                          </span>
+                        </div>
+                        <span className={`text-[10px] font-black ${taxSimulation.lucroReal.prejuizoGerado > 0 ? 'text-rose-600' : 'text-emerald-600'}`}>
+                          {(taxSimulation.lucroReal.prejuizoGerado > 0 ? taxSimulation.lucroReal.prejuizoGerado : taxSimulation.lucroReal.compensacaoPrejuizo).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
+                        </span>
+                      </div>
+                    </div>
+                  </div>
+                </div>
+
+                {/* Projeção de Faturamento */}
+                {projecaoFaturamento && (
+                  <div className="bg-white p-8 rounded-[2.5rem] border border-slate-100 shadow-xl shadow-slate-200/40">
+                    <div className="flex flex-wrap justify-between items-start gap-4 mb-6">
+                      <div>
+                        <h3 className="text-xl font-black text-slate-800 flex items-center gap-3">
+                          <div className="w-1.5 h-6 bg-indigo-600 rounded-full"></div>
+                          PROJEÇÃO DE FATURAMENTO (12 MESES)
+                        </h3>
+                        <p className="text-xs text-slate-500 font-medium mt-2">
+                          Tendência de {projecaoFaturamento.tendenciaMensal.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}/mês
+                          {monthlyStats.length >= 12 ? ' com sazonalidade do histórico.' : ' (sazonalidade exige 12 meses de histórico).'}
+                        </p>
+                      </div>
+                      <button
+                        onClick={aplicarProjecao}
+                        className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl text-[10px] font-black uppercase tracking-widest transition-colors"
+                      >
+                        Simular com a projeção
+                      </button>
+                    </div>
+
+                    <div className="h-56">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <ComposedChart data={projecaoFaturamento.meses}>
+                          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                          <XAxis dataKey="label" tick={{ fontSize: 10, fontWeight: 700 }} />
+                          <YAxis yAxisId="receita" tick={{ fontSize: 10 }} tickFormatter={(v) => `${(v / 1000).toFixed(0)}k`} />
+                          <YAxis yAxisId="acumulado" orientation="right" tick={{ fontSize: 10 }} tickFormatter={(v) => `${(v / 1000000).toFixed(1)}M`} />
+                          <Tooltip formatter={(value: number) => value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })} />
+                          <Legend wrapperStyle={{ fontSize: 10, fontWeight: 700 }} />
+                          <Bar yAxisId="receita" dataKey="receita" name="Receita (histórico + projeção)" radius={[4, 4, 0, 0]}>
+                            {projecaoFaturamento.meses.map((m, idx) => (
+                              <Cell key={idx} fill={m.projetado ? '#a5b4fc' : '#4f46e5'} />
+                            ))}
+                          </Bar>
+                          <Line yAxisId="acumulado" type="monotone" dataKey="rbt12" name="RBT12" stroke="#f59e0b" strokeWidth={2} dot={false} />
+                          <Line yAxisId="acumulado" type="monotone" dataKey="acumuladoAno" name="Acumulado no ano" stroke="#e11d48" strokeWidth={2} strokeDasharray="4 4" dot={false} />
+                          <Line yAxisId="acumulado" type="stepAfter" dataKey="sublimite" name="Sublimite" stroke="#f59e0b" strokeWidth={1} strokeDasharray="2 2" dot={false} legendType="none" />
+                          <Line yAxisId="acumulado" type="stepAfter" dataKey="limite" name="Limite" stroke="#e11d48" strokeWidth={1} strokeDasharray="2 2" dot={false} legendType="none" />
+                        </ComposedChart>
+                      </ResponsiveContainer>
+                    </div>
+
+                    <div className="mt-6 space-y-2">
+                      {projecaoFaturamento.alertas.length === 0 ? (
+                        <p className="p-3 bg-emerald-50 text-emerald-700 rounded-xl text-xs font-bold">
+                          Nenhuma mudança de faixa, sublimite ou limite do Simples prevista nos próximos 12 meses.
+                        </p>
+                      ) : projecaoFaturamento.alertas.map((a, idx) => (
+                        <div
+                          key={idx}
+                          className={`p-3 rounded-xl text-xs font-bold flex items-start gap-2 ${a.tipo === 'limite' ? 'bg-rose-50 text-rose-700' : a.tipo === 'sublimite' ? 'bg-amber-50 text-amber-700' : 'bg-indigo-50 text-indigo-700'}`}
+                        >
+                          <AlertCircle size={14} className="shrink-0 mt-0.5" />
+                          <span>{a.descricao}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* Mapa de Regimes RBT12 x Folha */}
+                {mapaRegimes && (
+                  <div className="bg-white p-8 rounded-[2.5rem] border border-slate-100 shadow-xl shadow-slate-200/40">
+                    <h3 className="text-xl font-black text-slate-800 mb-2 flex items-center gap-3">
+                      <div className="w-1.5 h-6 bg-indigo-600 rounded-full"></div>
+                      MAPA DE REGIMES: RBT12 x FOLHA
+                    </h3>
+                    <p className="text-xs text-slate-500 font-medium mb-6">
+                      Regime de menor carga em cada combinação. A intensidade da cor indica a economia mensal sobre o segundo melhor regime; a célula destacada é a posição atual.
+                    </p>
+
+                    <div className="flex gap-3">
+                      <div className="flex flex-col-reverse justify-between text-[9px] font-black text-slate-400 uppercase text-right w-16 py-1">
+                        {mapaRegimes.eixoFolha.map(f => (
+                          <span key={f}>{(f / 1000).toFixed(0)}k</span>
+                        ))}
+                      </div>
+                      <div className="flex-1">
+                        <div className="flex flex-col-reverse gap-1">
+                          {mapaRegimes.celulas.map((linha, li) => (
+                            <div key={li} className="grid grid-cols-10 gap-1">
+                              {linha.map((c, ci) => {
+                                const atual = mapaRegimes.posicaoAtual.linha === li && mapaRegimes.posicaoAtual.coluna === ci;
+                                const cor = c.regime === 'Simples Nacional' ? '79, 70, 229' : c.regime === 'Lucro Presumido' ? '245, 158, 11' : '225, 29, 72';
+                                const intensidade = mapaRegimes.economiaMaxima > 0 ? 0.2 + 0.8 * (c.economia / mapaRegimes.economiaMaxima) : 0.6;
+                                return (
+                                  <div
+                                    key={ci}
+                                    title={`${c.regime} | RBT12 ${c.rbt12.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })} | Folha ${c.folha.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}/mês | Economia ${c.economia.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}/mês`}
+                                    className={`h-10 rounded-md flex items-center justify-center text-[9px] font-black ${atual ? 'ring-4 ring-slate-900 ring-offset-1' : ''}`}
+                                    style={{ backgroundColor: `rgba(${cor}, ${intensidade})`, color: intensidade > 0.55 ? '#fff' : '#1e293b' }}
+                                  >
+                                    {(c.economia / 1000).toFixed(1)}k
+                                  </div>
+                                );
+                              })}
+                            </div>
+                          ))}
+                        </div>
+                        <div className="grid grid-cols-10 gap-1 mt-2 text-[9px] font-black text-slate-400 uppercase text-center">
+                          {mapaRegimes.eixoRbt12.map(r => (
+                            <span key={r}>{(r / 1000000).toFixed(1)}M</span>
+                          ))}
+                        </div>
+                      </div>
+                    </div>
+
+                    <div className="flex flex-wrap justify-between items-center gap-4 mt-6 pt-4 border-t border-slate-100">
+                      <div className="flex gap-4 text-[10px] font-black uppercase text-slate-500">
+                        <span className="flex items-center gap-2"><span className="w-3 h-3 rounded bg-indigo-600"></span>Simples</span>
+                        <span className="flex items-center gap-2"><span className="w-3 h-3 rounded bg-amber-500"></span>Presumido</span>
+                        <span className="flex items-center gap-2"><span className="w-3 h-3 rounded bg-rose-600"></span>Real</span>
+                      </div>
+                      <span className="text-[10px] font-bold text-slate-400 uppercase">Eixo X: RBT12 · Eixo Y: folha mensal (salários + pró-labore)</span>
+                    </div>
+                  </div>
+                )}
+
+                {/* Timeline Transição Reforma */}
+                <div className="bg-white p-8 rounded-[2.5rem] border border-slate-100 shadow-xl shadow-slate-200/40">
+                  <h3 className="text-xl font-black text-slate-800 mb-8 flex items-center gap-3">
+                    <div className="w-1.5 h-6 bg-indigo-600 rounded-full"></div>
+                    LINHA DO TEMPO: REFORMA TRIBUTÁRIA
+                  </h3>
+
+                  <div className="grid grid-cols-2 md:grid-cols-4 xl:grid-cols-8 gap-6 relative">
+                    <div className="hidden xl:block absolute top-[24px] left-0 right-0 h-1 bg-slate-100 z-0"></div>
+
+                    {reformaProjection.map(p => (
+                      <TimelineStep
+                        key={p.ano}
+                        year={String(p.ano)}
+                        title={p.fase}
+                        desc={p.ano < 2027
+                          ? `CBS ${p.aliquotaCbs.toFixed(1)}% + IBS ${p.aliquotaIbs.toFixed(1)}% em teste, compensáveis com PIS/COFINS.`
+                          : `CBS ${p.aliquotaCbs.toFixed(2)}% + IBS ${p.aliquotaIbs.toFixed(2)}%. PIS/COFINS extintos; ICMS/ISS a ${p.fatorIcmsIss.toFixed(0)}%.`}
+                        active={p.ano === Number(simCompetencia.slice(0, 4))}
+                        icon={p.ano === 2026 ? <Zap size={18} /> : p.ano < 2029 ? <ShieldCheck size={18} /> : p.ano < 2033 ? <TrendingDown size={18} /> : <Clock size={18} />}
+                      />
+                    ))}
+                  </div>
+
+                  <div className="mt-10">
+                    <h4 className="font-black text-slate-800 text-sm mb-4 uppercase tracking-tight">Carga Anual Projetada por Regime</h4>
+                    <div className="h-[320px]">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={reformaProjection} margin={{ top: 10, right: 10, bottom: 0, left: 10 }}>
+                          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                          <XAxis dataKey="ano" stroke="#94a3b8" fontSize={11} tickLine={false} axisLine={false} dy={10} />
+                          <YAxis stroke="#94a3b8" fontSize={11} tickLine={false} axisLine={false} tickFormatter={(v) => `R$ ${(v / 1000).toFixed(0)}k`} />
+                          <Tooltip
+                            contentStyle={{ borderRadius: '20px', border: 'none', boxShadow: '0 20px 25px -5px rgb(0 0 0 / 0.1)', padding: '16px' }}
+                            formatter={(value: number) => value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
+                          />
+                          <Legend />
+                          {taxSimulation.simples.elegivel && (
+                            <Line type="monotone" dataKey="simples" name="Simples Nacional" stroke="#10b981" strokeWidth={3} dot={{ r: 4 }} />
+                          )}
+                          {taxSimulation.lucroPresumido.elegivel && (
+                            <Line type="monotone" dataKey="presumido" name="Lucro Presumido" stroke="#6366f1" strokeWidth={3} dot={{ r: 4 }} />
+                          )}
+                          <Line type="monotone" dataKey="real" name="Lucro Real" stroke="#f59e0b" strokeWidth={3} dot={{ r: 4 }} />
+                        </LineChart>
+                      </ResponsiveContainer>
+                    </div>
+                    <p className="text-[10px] text-slate-400 font-medium mt-2">
+                      Tributos e encargos patronais fora da guia, com o faturamento e a folha atuais. No Simples, CBS/IBS seguem dentro do DAS.
+                    </p>
+                  </div>
+
+                  <div className="mt-10 p-6 bg-indigo-50/50 border border-indigo-100 rounded-[2rem] flex flex-col md:flex-row gap-8 items-center">
+                    <div className="flex-1">
+                      <h4 className="font-black text-indigo-900 text-sm mb-2 uppercase tracking-tight">Impacto em 2026 (CBS + IBS)</h4>
+                      <p className="text-[11px] text-indigo-700 font-medium leading-relaxed">
                         Em 2026, além do DAS ou LP, haverá a incidência de 1% a título de teste do novo IVA.
                         As empresas que vendem para outras empresas (B2B) devem analisar o regime híbrido para transferir créditos integrais.
                       </p>
@@ -1280,6 +2491,140 @@ const App: React.FC = () => {
                   </div>
                 </div>
 
+                {/* Simples Híbrido */}
+                {taxSimulation.simples.elegivel && (
+                  <div className="bg-white p-8 rounded-[2.5rem] border border-slate-100 shadow-xl shadow-slate-200/40">
+                    <div className="flex justify-between items-start mb-6">
+                      <h3 className="text-xl font-black text-slate-800 flex items-center gap-3">
+                        <div className="w-1.5 h-6 bg-emerald-500 rounded-full"></div>
+                        SIMPLES PURO x SIMPLES HÍBRIDO
+                      </h3>
+                      <span className={`px-4 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest ${simplesHibrido.vantajoso ? 'bg-emerald-100 text-emerald-700' : 'bg-slate-100 text-slate-500'}`}>
+                        {simplesHibrido.vantajoso ? 'Híbrido Recomendado' : 'Manter Simples Puro'}
+                      </span>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+                      <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100">
+                        <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">Simples Puro / Mês</p>
+                        <p className="text-lg font-black text-slate-800">{simplesHibrido.simplesPuro.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</p>
+                      </div>
+                      <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100">
+                        <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">Simples Híbrido / Mês</p>
+                        <p className="text-lg font-black text-slate-800">{simplesHibrido.simplesHibrido.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</p>
+                        <p className="text-[9px] font-bold text-slate-400">DAS {simplesHibrido.dasHibrido.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })} + CBS/IBS {simplesHibrido.cbsIbsRegular.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</p>
+                      </div>
+                      <div className="p-4 bg-rose-50 rounded-2xl border border-rose-100">
+                        <p className="text-[9px] font-black text-rose-400 uppercase tracking-widest mb-1">Custo Adicional / Mês</p>
+                        <p className="text-lg font-black text-rose-600">{simplesHibrido.custoAdicional.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</p>
+                        <p className="text-[9px] font-bold text-rose-400">Reajuste p/ repasse: {simplesHibrido.reajustePreco.toFixed(2)}%</p>
+                      </div>
+                      <div className="p-4 bg-emerald-50 rounded-2xl border border-emerald-100">
+                        <p className="text-[9px] font-black text-emerald-500 uppercase tracking-widest mb-1">Crédito Extra Clientes B2B</p>
+                        <p className="text-lg font-black text-emerald-600">{simplesHibrido.ganhoCreditoClientes.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</p>
+                        <p className="text-[9px] font-bold text-emerald-500">
+                          {simplesHibrido.creditoClientesPuro.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })} → {simplesHibrido.creditoClientesHibrido.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
+                        </p>
+                      </div>
+                    </div>
+
+                    <p className="text-[11px] text-slate-500 font-medium leading-relaxed">
+                      {!simIsB2B
+                        ? 'Clientes B2C não aproveitam créditos de CBS/IBS: o regime híbrido só aumenta a carga.'
+                        : simplesHibrido.vantajoso
+                          ? `Com reajuste de ${simplesHibrido.reajustePreco.toFixed(2)}% a empresa mantém a margem e o cliente B2B ainda reduz seu custo líquido em ${(simplesHibrido.ganhoCreditoClientes - Math.max(0, simplesHibrido.custoAdicional)).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}/mês.`
+                          : 'O crédito adicional dos clientes não cobre o custo extra: o repasse de preço deixaria a empresa menos competitiva.'}
+                      {' '}Regras v{simplesHibrido.versaoRegras}.
+                    </p>
+                  </div>
+                )}
+
+                {/* Split Payment */}
+                <div className="bg-white p-8 rounded-[2.5rem] border border-slate-100 shadow-xl shadow-slate-200/40">
+                  <h3 className="text-xl font-black text-slate-800 mb-2 flex items-center gap-3">
+                    <div className="w-1.5 h-6 bg-violet-600 rounded-full"></div>
+                    SPLIT PAYMENT: FLUXO DE CAIXA
+                  </h3>
+                  <p className="text-[11px] text-slate-400 font-medium mb-6">
+                    CBS/IBS ({((regrasReforma.reforma.cbs + regrasReforma.reforma.ibs) * 100).toFixed(2)}%, regras v{regrasReforma.versao}) retidos na liquidação, com abatimento dos créditos, contra a guia do dia 20 do mês seguinte.
+                  </p>
+
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                    <div>
+                      <label className="text-[10px] font-black text-slate-400 uppercase tracking-wider block mb-2">PIX / À Vista ({(splitPix * 100).toFixed(0)}%)</label>
+                      <input
+                        type="range" min="0" max="1" step="0.05"
+                        value={splitPix}
+                        onChange={(e) => { const v = Number(e.target.value); setSplitPix(v); setSplitCartao(Math.min(splitCartao, 1 - v)); }}
+                        className="w-full h-1.5 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-violet-600"
+                      />
+                    </div>
+                    <div>
+                      <label className="text-[10px] font-black text-slate-400 uppercase tracking-wider block mb-2">Cartão ({(splitCartao * 100).toFixed(0)}%)</label>
+                      <input
+                        type="range" min="0" max={1 - splitPix} step="0.05"
+                        value={splitCartao}
+                        onChange={(e) => setSplitCartao(Number(e.target.value))}
+                        className="w-full h-1.5 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-violet-600"
+                      />
+                      <p className="text-[9px] text-slate-400 font-bold mt-1">A prazo: {(Math.max(0, 1 - splitPix - splitCartao) * 100).toFixed(0)}%</p>
+                    </div>
+                    <div>
+                      <label className="text-[10px] font-black text-slate-400 uppercase tracking-wider block mb-2">Prazo Médio a Receber (dias)</label>
+                      <input
+                        type="number" min="0"
+                        value={splitPrazoMedio}
+                        onChange={(e) => setSplitPrazoMedio(Math.max(0, Number(e.target.value)))}
+                        className="w-full p-2 bg-slate-50 border-2 border-slate-100 rounded-xl text-sm font-bold text-slate-700 focus:border-violet-500 transition-all outline-none"
+                      />
+                    </div>
+                    <div>
+                      <label className="text-[10px] font-black text-slate-400 uppercase tracking-wider block mb-2">Liquidação do Cartão (dias)</label>
+                      <input
+                        type="number" min="0"
+                        value={splitPrazoCartao}
+                        onChange={(e) => setSplitPrazoCartao(Math.max(0, Number(e.target.value)))}
+                        className="w-full p-2 bg-slate-50 border-2 border-slate-100 rounded-xl text-sm font-bold text-slate-700 focus:border-violet-500 transition-all outline-none"
+                      />
+                    </div>
+                  </div>
+
+                  <div className="h-[300px]">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <ComposedChart data={splitPaymentFlow} margin={{ top: 10, right: 10, bottom: 0, left: 10 }}>
+                        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                        <XAxis dataKey="label" stroke="#94a3b8" fontSize={11} tickLine={false} axisLine={false} dy={10} />
+                        <YAxis stroke="#94a3b8" fontSize={11} tickLine={false} axisLine={false} tickFormatter={(v) => `R$ ${(v / 1000).toFixed(0)}k`} />
+                        <Tooltip
+                          contentStyle={{ borderRadius: '20px', border: 'none', boxShadow: '0 20px 25px -5px rgb(0 0 0 / 0.1)', padding: '16px' }}
+                          formatter={(value: number) => value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
+                        />
+                        <Legend />
+                        <Bar dataKey="recolhimentoAtual" name="Guia (dia 20, M+1)" fill="#cbd5e1" radius={[6, 6, 0, 0]} />
+                        <Bar dataKey="retencaoSplit" name="Retenção Split" fill="#8b5cf6" radius={[6, 6, 0, 0]} />
+                        <Line type="monotone" dataKey="gapCapitalGiro" name="Gap de Capital de Giro" stroke="#f43f5e" strokeWidth={3} dot={{ r: 4 }} />
+                      </ComposedChart>
+                    </ResponsiveContainer>
+                  </div>
+
+                  {splitPaymentFlow.length > 0 && (
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-6">
+                      <div className="p-4 bg-slate-50 rounded-2xl border border-slate-100">
+                        <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">Créditos Abatidos / Mês</p>
+                        <p className="text-lg font-black text-slate-800">{(splitPaymentFlow.reduce((acc, m) => acc + m.creditos, 0) / splitPaymentFlow.length).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</p>
+                      </div>
+                      <div className="p-4 bg-rose-50 rounded-2xl border border-rose-100">
+                        <p className="text-[9px] font-black text-rose-400 uppercase tracking-widest mb-1">Gap Máximo de Caixa</p>
+                        <p className="text-lg font-black text-rose-600">{Math.max(...splitPaymentFlow.map(m => m.gapCapitalGiro)).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</p>
+                      </div>
+                      <div className="p-4 bg-violet-50 rounded-2xl border border-violet-100">
+                        <p className="text-[9px] font-black text-violet-400 uppercase tracking-widest mb-1">Gap Médio no Último Mês</p>
+                        <p className="text-lg font-black text-violet-600">{splitPaymentFlow[splitPaymentFlow.length - 1].gapCapitalGiro.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</p>
+                      </div>
+                    </div>
+                  )}
+                </div>
+
                 {/* Checklist de Prontidão */}
                 <div className="bg-slate-900 rounded-[2.5rem] p-10 text-white relative overflow-hidden">
                   <div className="absolute right-0 bottom-0 opacity-10 translate-x-1/4 translate-y-1/4">
@@ -1369,6 +2714,72 @@ const App: React.FC = () => {
                       </div>
                     </div>
                   </div>
+
+                  <div className="p-6 bg-slate-50 rounded-3xl border border-slate-100">
+                    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-4">Repartição do DAS (LC 123 - {taxSimulation.simples.faixa}ª Faixa)</p>
+                    <table className="w-full text-xs font-bold">
+                      <thead>
+                        <tr className="text-[9px] text-slate-400 uppercase tracking-widest">
+                          <th className="text-left pb-2">Tributo</th>
+                          <th className="text-right pb-2">% do DAS</th>
+                          <th className="text-right pb-2">Alíq. s/ Fat.</th>
+                          <th className="text-right pb-2">Valor</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {(Object.keys(TRIBUTO_DAS_LABELS) as TributoDAS[])
+                          .filter(t => taxSimulation.simples.reparticao[t] > 0)
+                          .map(t => (
+                            <tr key={t} className="border-t border-slate-100">
+                              <td className="py-1.5 text-slate-500">{TRIBUTO_DAS_LABELS[t]}</td>
+                              <td className="py-1.5 text-right text-slate-800">{taxSimulation.simples.dasTotal > 0 ? (taxSimulation.simples.reparticao[t] / taxSimulation.simples.dasTotal * 100).toFixed(2) : '0.00'}%</td>
+                              <td className="py-1.5 text-right text-indigo-600">{(taxSimulation.simples.reparticao[t] / (simMonthlyBilling || statsMetrics.billing.avg || 1) * 100).toFixed(2)}%</td>
+                              <td className="py-1.5 text-right text-slate-800">{taxSimulation.simples.reparticao[t].toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</td>
+                            </tr>
+                          ))}
+                      </tbody>
+                    </table>
+                    {taxSimulation.simples.issLimitado && (
+                      <p className="text-[10px] text-amber-700 font-bold mt-4 leading-tight">
+                        * ISS limitado a 5% da receita; o excedente foi redistribuído proporcionalmente aos tributos federais da faixa.
+                      </p>
+                    )}
+                    {taxSimulation.simples.economiaSegregacao > 0 && (
+                      <p className="text-[10px] text-emerald-700 font-bold mt-2 leading-tight">
+                        * Receitas segregadas (ICMS-ST, monofásico, exportação): {taxSimulation.simples.economiaSegregacao.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })} de tributos excluídos do DAS.
+                      </p>
+                    )}
+                  </div>
+
+                  {taxSimulation.simples.sublimiteExcedido && (
+                    <div className="p-4 bg-amber-50 rounded-2xl border border-amber-100 flex items-start gap-3">
+                      <AlertCircle className="text-amber-600 shrink-0" size={18} />
+                      <div className="flex-1">
+                        <p className="text-[10px] text-amber-800 font-bold leading-tight">
+                          Sublimite de {limitesSimples.sublimite.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })} excedido: a repartição do DAS exclui ICMS/ISS, recolhidos pelas regras normais (ICMS {(simIcmsRate * 100).toFixed(1)}% com créditos / ISS {(simIssRate * 100).toFixed(1)}%).
+                        </p>
+                        <div className="flex justify-between text-xs font-black text-amber-700 mt-2">
+                          <span>ICMS: {taxSimulation.simples.icmsForaDoDas.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</span>
+                          <span>ISS: {taxSimulation.simples.issForaDoDas.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</span>
+                          {taxSimulation.simples.ibsForaDoDas > 0 && (
+                            <span>IBS: {taxSimulation.simples.ibsForaDoDas.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</span>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  )}
+
+                  {taxSimulation.simples.cppForaDoDas > 0 && (
+                    <div className="p-4 bg-rose-50 rounded-2xl border border-rose-100 flex items-start gap-3">
+                      <AlertCircle className="text-rose-600 shrink-0" size={18} />
+                      <div className="flex-1">
+                        <p className="text-[10px] text-rose-800 font-bold leading-tight">
+                          Anexo IV: CPP (20% sobre a folha) + RAT ({(simRatRate * 100).toFixed(1)}% sobre salários) recolhidos em GPS, fora do DAS.
+                        </p>
+                        <p className="text-sm font-black text-rose-700 mt-1">{taxSimulation.simples.cppForaDoDas.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</p>
+                      </div>
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -1408,7 +2819,7 @@ const App: React.FC = () => {
 
                     {((simMonthlyBilling || statsMetrics.billing.avg) * (taxSimulation.lucroPresumido.presuncaoirpj / 100)) > 20000 && (
                       <div className="flex justify-between text-xs font-bold">
-                        <span className="text-slate-500">Adicional IRPJ (10%)</span>
+                        <span className="text-slate-500">Adicional IRPJ (10% s/ R$ 60 mil no trimestre, média mensal)</span>
                         <div className="text-right">
                           <p className="text-slate-800">{(((simMonthlyBilling || statsMetrics.billing.avg) * (taxSimulation.lucroPresumido.presuncaoirpj / 100) - 20000) * 0.10).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</p>
                           <p className="text-[10px] text-indigo-600 font-medium">Aliq. Ef: {((((simMonthlyBilling || statsMetrics.billing.avg) * (taxSimulation.lucroPresumido.presuncaoirpj / 100) - 20000) * 0.10) / (simMonthlyBilling || statsMetrics.billing.avg) * 100).toFixed(2)}%</p>
@@ -1424,30 +2835,55 @@ const App: React.FC = () => {
                       </div>
                     </div>
 
-                    <div className="flex justify-between text-xs font-bold pt-2 border-t border-slate-100">
-                      <span className="text-slate-500">PIS (0.65%)</span>
-                      <div className="text-right">
-                        <p className="text-slate-800">{((simMonthlyBilling || statsMetrics.billing.avg) * 0.0065).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</p>
-                        <p className="text-[10px] text-indigo-600 font-medium">Aliq. Ef: 0.65%</p>
-                      </div>
-                    </div>
+                    {regrasVigentes.reforma.pisCofinsExtinto ? (
+                      <>
+                        <div className="flex justify-between text-xs font-bold pt-2 border-t border-slate-100">
+                          <span className="text-slate-500">CBS ({(regrasVigentes.reforma.cbs * 100).toFixed(2)}% - créditos)</span>
+                          <p className="text-slate-800">{taxSimulation.lucroPresumido.cbs.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</p>
+                        </div>
+                        <div className="flex justify-between text-xs font-bold">
+                          <span className="text-slate-500">IBS ({(regrasVigentes.reforma.ibs * 100).toFixed(2)}% - créditos)</span>
+                          <p className="text-slate-800">{taxSimulation.lucroPresumido.ibs.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</p>
+                        </div>
+                      </>
+                    ) : (
+                      <>
+                        <div className="flex justify-between text-xs font-bold pt-2 border-t border-slate-100">
+                          <span className="text-slate-500">PIS ({(regrasVigentes.pisCofins.pisCumulativo * 100).toFixed(2)}%)</span>
+                          <div className="text-right">
+                            <p className="text-slate-800">{taxSimulation.lucroPresumido.pis.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</p>
+                            <p className="text-[10px] text-indigo-600 font-medium">Aliq. Ef: {(regrasVigentes.pisCofins.pisCumulativo * 100).toFixed(2)}%</p>
+                          </div>
+                        </div>
 
-                    <div className="flex justify-between text-xs font-bold">
-                      <span className="text-slate-500">COFINS (3%)</span>
-                      <div className="text-right">
-                        <p className="text-slate-800">{((simMonthlyBilling || statsMetrics.billing.avg) * 0.03).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</p>
-                        <p className="text-[10px] text-indigo-600 font-medium">Aliq. Ef: 3.00%</p>
-                      </div>
-                    </div>
+                        <div className="flex justify-between text-xs font-bold">
+                          <span className="text-slate-500">COFINS ({(regrasVigentes.pisCofins.cofinsCumulativo * 100).toFixed(2)}%)</span>
+                          <div className="text-right">
+                            <p className="text-slate-800">{taxSimulation.lucroPresumido.cofins.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</p>
+                            <p className="text-[10px] text-indigo-600 font-medium">Aliq. Ef: {(regrasVigentes.pisCofins.cofinsCumulativo * 100).toFixed(2)}%</p>
+                          </div>
+                        </div>
+                      </>
+                    )}
 
                     <div className="flex justify-between text-xs font-bold">
-                      <span className="text-slate-500">ISSQN ({(simIssRate * 100).toFixed(1)}%)</span>
+                      <span className="text-slate-500">ISSQN ({issFixoAtivo ? `fixo, ${issFixoProfissionais} prof.` : `${(simIssRate * 100).toFixed(1)}%`})</span>
                       <div className="text-right">
                         <p className="text-slate-800">{taxSimulation.lucroPresumido.issqn.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</p>
-                        <p className="text-[10px] text-indigo-600 font-medium">Aliq. Ef: {(simIssRate * 100).toFixed(2)}%</p>
+                        <p className="text-[10px] text-indigo-600 font-medium">Aliq. Ef: {(issFixoAtivo ? taxSimulation.lucroPresumido.issqn / (simMonthlyBilling || statsMetrics.billing.avg || 1) * 100 : simIssRate * 100).toFixed(2)}%</p>
                       </div>
                     </div>
 
+                    {taxSimulation.lucroPresumido.icms > 0 && (
+                      <div className="flex justify-between text-xs font-bold">
+                        <span className="text-slate-500">ICMS ({(simIcmsRate * 100).toFixed(1)}% - créditos)</span>
+                        <div className="text-right">
+                          <p className="text-slate-800">{taxSimulation.lucroPresumido.icms.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</p>
+                          <p className="text-[10px] text-indigo-600 font-medium">Aliq. Ef: {(taxSimulation.lucroPresumido.icms / (simMonthlyBilling || statsMetrics.billing.avg) * 100).toFixed(2)}%</p>
+                        </div>
+                      </div>
+                    )}
+
                     <div className="flex justify-between text-sm font-black border-t border-indigo-200 pt-3 text-indigo-600">
                       <span>TOTAL LUCRO PRESUMIDO</span>
                       <div className="text-right">
@@ -1468,6 +2904,179 @@ const App: React.FC = () => {
                 </div>
               </div>
 
+              {/* Lucro Real Breakdown */}
+              <div className="bg-white p-10 rounded-[3rem] border border-slate-100 shadow-xl shadow-slate-200/40 lg:col-span-2">
+                <h3 className="text-xl font-black text-slate-800 mb-8 flex items-center gap-3">
+                  <div className="w-1.5 h-6 bg-amber-500 rounded-full"></div>
+                  LUCRO REAL
+                </h3>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+                  <div className="p-6 bg-slate-50 rounded-3xl border border-slate-100 space-y-3">
+                    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">Apuração do Lucro</p>
+                    <div className="flex justify-between text-xs font-bold">
+                      <span className="text-slate-500">Faturamento Mensal Utilizado</span>
+                      <span className="text-slate-800">{(simMonthlyBilling || statsMetrics.billing.avg).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</span>
+                    </div>
+                    <div className="flex justify-between text-xs font-bold">
+                      <span className="text-slate-500">(-) Despesas Dedutíveis</span>
+                      <span className="text-slate-800">{simMonthlyExpenses.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</span>
+                    </div>
+                    <div className="flex justify-between text-xs font-bold">
+                      <span className="text-slate-500">(-) Folha, Encargos e Tributos s/ Receita</span>
+                      <span className="text-slate-800">{((simMonthlyBilling || statsMetrics.billing.avg) - simMonthlyExpenses - taxSimulation.lucroReal.lucroContabil).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</span>
+                    </div>
+                    <div className="flex justify-between text-xs font-bold border-t border-slate-200 pt-3">
+                      <span className="text-slate-500 italic">Lucro Contábil</span>
+                      <span className={taxSimulation.lucroReal.lucroContabil < 0 ? 'text-rose-600' : 'text-slate-800'}>{taxSimulation.lucroReal.lucroContabil.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</span>
+                    </div>
+                    <div className="flex justify-between text-xs font-bold">
+                      <span className="text-slate-500">(-) Compensação de Prejuízo (máx. 30%)</span>
+                      <span className="text-slate-800">{taxSimulation.lucroReal.compensacaoPrejuizo.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</span>
+                    </div>
+                    <div className="flex justify-between text-xs font-bold border-t border-slate-200 pt-3">
+                      <span className="text-slate-500 italic">Lucro Real (Base IRPJ/CSLL)</span>
+                      <span className="text-indigo-600">{taxSimulation.lucroReal.baseCalculo.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</span>
+                    </div>
+                  </div>
+
+                  <div className="p-6 bg-slate-50 rounded-3xl border border-slate-100 space-y-3">
+                    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">Tributos Apurados</p>
+                    <div className="flex justify-between text-xs font-bold">
+                      <span className="text-slate-500">IRPJ (15% + Adicional 10%)</span>
+                      <span className="text-slate-800">{taxSimulation.lucroReal.irpj.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</span>
+                    </div>
+                    <div className="flex justify-between text-xs font-bold">
+                      <span className="text-slate-500">CSLL (9%)</span>
+                      <span className="text-slate-800">{taxSimulation.lucroReal.csll.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</span>
+                    </div>
+                    {regrasVigentes.reforma.pisCofinsExtinto ? (
+                      <>
+                        <div className="flex justify-between text-xs font-bold pt-2 border-t border-slate-100">
+                          <span className="text-slate-500">CBS ({(regrasVigentes.reforma.cbs * 100).toFixed(2)}%) - Créditos</span>
+                          <span className="text-slate-800">{taxSimulation.lucroReal.cbs.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</span>
+                        </div>
+                        <div className="flex justify-between text-xs font-bold">
+                          <span className="text-slate-500">IBS ({(regrasVigentes.reforma.ibs * 100).toFixed(2)}%) - Créditos</span>
+                          <span className="text-slate-800">{taxSimulation.lucroReal.ibs.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</span>
+                        </div>
+                      </>
+                    ) : (
+                      <>
+                        <div className="flex justify-between text-xs font-bold pt-2 border-t border-slate-100">
+                          <span className="text-slate-500">PIS ({(regrasVigentes.pisCofins.pisNaoCumulativo * 100).toFixed(2)}%) - Créditos</span>
+                          <span className="text-slate-800">{taxSimulation.lucroReal.pis.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</span>
+                        </div>
+                        <div className="flex justify-between text-xs font-bold">
+                          <span className="text-slate-500">COFINS ({(regrasVigentes.pisCofins.cofinsNaoCumulativo * 100).toFixed(2)}%) - Créditos</span>
+                          <span className="text-slate-800">{taxSimulation.lucroReal.cofins.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</span>
+                        </div>
+                      </>
+                    )}
+                    <div className="flex justify-between text-xs font-bold">
+                      <span className="text-slate-500">ISSQN ({issFixoAtivo ? `fixo, ${issFixoProfissionais} prof.` : `${(simIssRate * 100).toFixed(1)}%`})</span>
+                      <span className="text-slate-800">{taxSimulation.lucroReal.issqn.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</span>
+                    </div>
+                    {taxSimulation.lucroReal.icms > 0 && (
+                      <div className="flex justify-between text-xs font-bold">
+                        <span className="text-slate-500">ICMS ({(simIcmsRate * 100).toFixed(1)}% - créditos)</span>
+                        <span className="text-slate-800">{taxSimulation.lucroReal.icms.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</span>
+                      </div>
+                    )}
+                    <div className="flex justify-between text-sm font-black border-t border-indigo-200 pt-3 text-indigo-600">
+                      <span>TOTAL LUCRO REAL</span>
+                      <div className="text-right">
+                        <span>{taxSimulation.lucroReal.total.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</span>
+                        <p className="text-xs font-black">Efetiva Total: {taxSimulation.lucroReal.aliquotaEfetiva.toFixed(2)}%</p>
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              </div>
+
+              {/* Apuração Trimestral LP */}
+              <div className="bg-white p-10 rounded-[3rem] border border-slate-100 shadow-xl shadow-slate-200/40 lg:col-span-2">
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
+                  <h3 className="text-xl font-black text-slate-800 flex items-center gap-3">
+                    <div className="w-1.5 h-6 bg-violet-600 rounded-full"></div>
+                    LUCRO PRESUMIDO: APURAÇÃO TRIMESTRAL E DARF
+                  </h3>
+                  <div className="flex items-center gap-3">
+                    <div className="flex bg-slate-100 p-1 rounded-xl">
+                      <button
+                        onClick={() => setSimLpFormaPagamento('cota_unica')}
+                        className={`px-3 py-1 rounded-lg text-[10px] font-black uppercase transition-all ${simLpFormaPagamento === 'cota_unica' ? 'bg-white text-violet-600 shadow-sm' : 'text-slate-500'}`}
+                      >
+                        Quota Única
+                      </button>
+                      <button
+                        onClick={() => setSimLpFormaPagamento('tres_quotas')}
+                        className={`px-3 py-1 rounded-lg text-[10px] font-black uppercase transition-all ${simLpFormaPagamento === 'tres_quotas' ? 'bg-white text-violet-600 shadow-sm' : 'text-slate-500'}`}
+                      >
+                        3 Quotas
+                      </button>
+                    </div>
+                    {simLpFormaPagamento === 'tres_quotas' && (
+                      <div className="flex items-center gap-2">
+                        <label className="text-[9px] font-black text-slate-400 uppercase">SELIC a.m.</label>
+                        <input
+                          type="number"
+                          step="0.01"
+                          value={(simSelicMensal * 100).toFixed(2)}
+                          onChange={(e) => setSimSelicMensal(Number(e.target.value) / 100)}
+                          className="w-16 p-1.5 bg-slate-50 border border-slate-200 rounded-md text-[10px] font-bold text-slate-700 outline-none"
+                        />
+                        <span className="text-[10px] font-bold text-slate-400">%</span>
+                      </div>
+                    )}
+                  </div>
+                </div>
+
+                <div className="overflow-x-auto">
+                  <table className="w-full text-left text-xs font-bold">
+                    <thead>
+                      <tr className="text-[9px] text-slate-400 uppercase tracking-widest">
+                        <th className="pb-3">Trimestre</th>
+                        <th className="pb-3 text-right">Receita</th>
+                        <th className="pb-3 text-right">Base IRPJ</th>
+                        <th className="pb-3 text-right">IRPJ 15%</th>
+                        <th className="pb-3 text-right">Adicional 10%</th>
+                        <th className="pb-3 text-right">CSLL 9%</th>
+                        <th className="pb-3 text-right">Total</th>
+                        <th className="pb-3 pl-6">Cronograma DARF</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {lpTrimestral.map(t => (
+                        <tr key={`${t.ano}-${t.trimestre}`} className="border-t border-slate-100 align-top">
+                          <td className="py-3 text-slate-700">
+                            {t.trimestre}º/{t.ano}
+                            {t.meses < 3 && <span className="block text-[9px] text-amber-600">Parcial ({t.meses} {t.meses === 1 ? 'mês' : 'meses'})</span>}
+                          </td>
+                          <td className="py-3 text-right text-slate-500">{t.receita.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</td>
+                          <td className="py-3 text-right text-slate-500">{t.baseIRPJ.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</td>
+                          <td className="py-3 text-right text-slate-800">{(t.irpj - t.adicionalIRPJ).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</td>
+                          <td className={`py-3 text-right ${t.adicionalIRPJ > 0 ? 'text-rose-600' : 'text-slate-300'}`}>{t.adicionalIRPJ.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</td>
+                          <td className="py-3 text-right text-slate-800">{t.csll.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</td>
+                          <td className="py-3 text-right text-indigo-600">{t.total.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</td>
+                          <td className="py-3 pl-6 space-y-1">
+                            {t.quotas.map(q => (
+                              <p key={q.numero} className="text-[10px] text-slate-500 whitespace-nowrap">
+                                {q.numero}ª quota · {q.vencimento.toLocaleDateString('pt-BR')} · <span className="text-slate-800">{q.total.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</span>
+                                {q.juros > 0 && <span className="text-rose-500"> (juros {q.juros.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })})</span>}
+                              </p>
+                            ))}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <p className="text-[10px] text-slate-400 font-medium mt-6 italic">
+                  * IRPJ/CSLL apurados por trimestre civil; adicional de 10% sobre a base que exceder R$ 60.000 no trimestre. Quotas mínimas de R$ 1.000; valores abaixo de R$ 2.000 em quota única. 2ª e 3ª quotas com juros SELIC + 1%.
+                </p>
+              </div>
+
               {/* Reforma 2026 Memory */}
               <div className="bg-slate-900 p-10 rounded-[3rem] text-white lg:col-span-2 relative overflow-hidden">
                 <div className="absolute right-0 top-0 opacity-10 -translate-y-1/4 translate-x-1/4">
@@ -1514,21 +3123,72 @@ const App: React.FC = () => {
                   </h3>
 
                   <div className="space-y-8">
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                          RAT (CNAE){ratEstimativa && <span className="ml-1 text-amber-600">ESTIMATIVA</span>}
+                        </label>
+                        <select
+                          value={simRatBase}
+                          onChange={(e) => {
+                            applyRatFap(Number(e.target.value) as GrauRat, simFap);
+                            setRatEstimativa(false);
+                            setRatFundamento('Grau informado manualmente');
+                          }}
+                          className="w-full mt-1 p-2 bg-slate-50 border border-slate-200 rounded-lg text-xs font-bold text-slate-700 outline-none"
+                        >
+                          <option value={0.01}>1% - Leve</option>
+                          <option value={0.02}>2% - Médio</option>
+                          <option value={0.03}>3% - Grave</option>
+                        </select>
+                      </div>
+                      <div>
+                        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">FAP</label>
+                        <input
+                          type="number" min={FAP_MINIMO} max={FAP_MAXIMO} step="0.0001"
+                          value={simFap}
+                          onChange={(e) => applyRatFap(simRatBase, Number(e.target.value))}
+                          className="w-full mt-1 p-2 bg-slate-50 border border-slate-200 rounded-lg text-xs font-bold text-slate-700 outline-none"
+                        />
+                      </div>
+                      {ratFundamento && <p className={`col-span-2 text-[9px] font-bold ${ratEstimativa ? 'text-amber-600' : 'text-slate-400'}`}>{ratFundamento}</p>}
+                    </div>
+
                     <div>
                       <div className="flex justify-between items-center mb-4">
-                        <label className="text-xs font-black text-slate-400 uppercase tracking-widest">Alíquota RAT (%)</label>
+                        <label className="text-xs font-black text-slate-400 uppercase tracking-widest">RAT Ajustado (%)</label>
                         <span className="text-lg font-black text-indigo-600">{(simRatRate * 100).toFixed(1)}%</span>
                       </div>
                       <input
-                        type="range" min="0" max="3" step="0.5"
+                        type="range" min="0" max="6" step="0.1"
                         value={simRatRate * 100}
                         onChange={(e) => setSimRatRate(Number(e.target.value) / 100)}
                         className="w-full h-2 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-indigo-600"
                       />
                       <div className="flex justify-between mt-2 text-[10px] text-slate-400 font-bold">
-                        <span>LEVE (1%)</span>
-                        <span>MÉDIO (2%)</span>
-                        <span>GRAVE (3%)</span>
+                        <span>RAT x FAP: {(calculateRatAjustado(simRatBase, simFap) * 100).toFixed(2)}%</span>
+                        {Math.abs(simRatRate - calculateRatAjustado(simRatBase, simFap)) > 0.00005 && <span className="text-amber-600">AJUSTE MANUAL</span>}
+                      </div>
+                    </div>
+
+                    <div>
+                      <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Código FPAS</label>
+                      <select
+                        value={simFpas}
+                        onChange={(e) => applyFpas(e.target.value)}
+                        className="w-full mt-1 p-2 bg-slate-50 border border-slate-200 rounded-lg text-xs font-bold text-slate-700 outline-none"
+                      >
+                        {Object.values(FPAS_TABLE).map(f => (
+                          <option key={f.codigo} value={f.codigo}>{f.codigo} - {f.descricao}</option>
+                        ))}
+                      </select>
+                      <div className="mt-2 space-y-1">
+                        {terceirosFpas.detalhamento.map(d => (
+                          <div key={d.entidade} className="flex justify-between text-[10px] font-bold text-slate-500">
+                            <span>{d.entidade}</span>
+                            <span>{(d.aliquota * 100).toFixed(1)}%</span>
+                          </div>
+                        ))}
                       </div>
                     </div>
 
@@ -1544,8 +3204,8 @@ const App: React.FC = () => {
                         className="w-full h-2 bg-slate-100 rounded-lg appearance-none cursor-pointer accent-violet-600"
                       />
                       <div className="flex justify-between mt-2 text-[10px] text-slate-400 font-bold">
-                        <span>0%</span>
-                        <span>PADRÃO (5.8%)</span>
+                        <span>FPAS {simFpas}: {(terceirosFpas.total * 100).toFixed(1)}%</span>
+                        {Math.abs(simTerceirosRate - terceirosFpas.total) > 0.00005 && <span className="text-amber-600">AJUSTE MANUAL</span>}
                       </div>
                     </div>
 
@@ -1557,6 +3217,76 @@ const App: React.FC = () => {
                     </div>
                   </div>
                 </div>
+
+                <div className="bg-white p-6 rounded-[2rem] border border-slate-100 shadow-xl">
+                  <h3 className="text-lg font-black text-slate-800 mb-6 flex items-center gap-2">
+                    <div className="w-1.5 h-6 bg-pink-600 rounded-full"></div>
+                    Quadro de Funcionários
+                  </h3>
+                  <div className="space-y-3">
+                    {faixasFolha.map((f, idx) => (
+                      <div key={idx} className="p-3 bg-slate-50 rounded-xl border border-slate-100 space-y-2">
+                        <div className="flex items-center gap-2">
+                          <input
+                            type="text"
+                            value={f.descricao}
+                            onChange={(e) => updateFaixaFolha(idx, { descricao: e.target.value })}
+                            className="flex-1 bg-transparent text-xs font-black text-slate-700 outline-none"
+                          />
+                          {folhaFaixas.length > 1 && (
+                            <button
+                              onClick={() => setFolhaFaixas(folhaFaixas.filter((_, i) => i !== idx))}
+                              className="text-[10px] font-black text-rose-500 hover:text-rose-700 uppercase"
+                            >
+                              Remover
+                            </button>
+                          )}
+                        </div>
+                        <div className="grid grid-cols-3 gap-2">
+                          <div>
+                            <label className="text-[9px] font-black text-slate-400 uppercase">Qtd.</label>
+                            <input
+                              type="number" min="0"
+                              value={f.quantidade}
+                              onChange={(e) => updateFaixaFolha(idx, { quantidade: Math.max(0, Number(e.target.value)) })}
+                              className="w-full p-1.5 bg-white border border-slate-200 rounded-md text-xs font-bold text-slate-700 outline-none"
+                            />
+                          </div>
+                          <div>
+                            <label className="text-[9px] font-black text-slate-400 uppercase">Salário</label>
+                            <input
+                              type="text"
+                              value={formatRawToCurrency(f.salario)}
+                              onChange={(e) => updateFaixaFolha(idx, { salario: parseCurrencyToNumber(e.target.value) })}
+                              className="w-full p-1.5 bg-white border border-slate-200 rounded-md text-xs font-bold text-slate-700 outline-none"
+                            />
+                          </div>
+                          <div>
+                            <label className="text-[9px] font-black text-slate-400 uppercase">Férias</label>
+                            <select
+                              value={f.mesFerias || 0}
+                              onChange={(e) => updateFaixaFolha(idx, { mesFerias: Number(e.target.value) || undefined })}
+                              className="w-full p-1.5 bg-white border border-slate-200 rounded-md text-xs font-bold text-slate-700 outline-none"
+                            >
+                              <option value={0}>Ao longo do ano</option>
+                              {MONTH_NAMES.map((m, i) => <option key={i} value={i + 1}>{m}</option>)}
+                            </select>
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                    <button
+                      onClick={() => setFolhaFaixas([...faixasFolha, { descricao: `Faixa ${faixasFolha.length + 1}`, quantidade: 1, salario: 0 }])}
+                      className="w-full py-2 text-[10px] font-black text-indigo-600 bg-indigo-50 hover:bg-indigo-100 rounded-xl uppercase transition-colors"
+                    >
+                      + Adicionar faixa
+                    </button>
+                    <label className="flex items-center gap-2 text-xs font-bold text-slate-600">
+                      <input type="checkbox" checked={provisionarMulta} onChange={(e) => setProvisionarMulta(e.target.checked)} className="accent-indigo-600" />
+                      Provisionar multa de 40% do FGTS
+                    </label>
+                  </div>
+                </div>
               </div>
 
               {/* Dashboard Column */}
@@ -1583,7 +3313,7 @@ const App: React.FC = () => {
                   <div className="space-y-6">
                     <div className="flex items-center justify-between p-4 bg-slate-50 rounded-2xl">
                       <div className="flex items-center gap-3">
-                        <div className="w-10 h-10 bg-indigo-100 text-indigo-600 rounded-xl flex items-center justify-center font-black">20%</div>
+                        <div className="w-10 h-10 bg-indigo-100 text-indigo-600 rounded-xl flex items-center justify-center font-black text-xs">{simCprbSetor ? `${(regrasVigentes.desoneracao.aliquotaFolha * 100).toFixed(0)}%` : '20%'}</div>
                         <div>
                           <p className="text-sm font-black text-slate-800">INSS Patronal</p>
                           <p className="text-[10px] text-slate-400 font-bold uppercase">Cota Parte Empresa</p>
@@ -1594,10 +3324,10 @@ const App: React.FC = () => {
 
                     <div className="flex items-center justify-between p-4 bg-slate-50 rounded-2xl">
                       <div className="flex items-center gap-3">
-                        <div className="w-10 h-10 bg-orange-100 text-orange-600 rounded-xl flex items-center justify-center font-black">{(simRatRate * 100).toFixed(0)}%</div>
+                        <div className="w-10 h-10 bg-orange-100 text-orange-600 rounded-xl flex items-center justify-center font-black text-xs">{(simRatRate * 100).toFixed(1)}%</div>
                         <div>
                           <p className="text-sm font-black text-slate-800">RAT (Risco de Acidente)</p>
-                          <p className="text-[10px] text-slate-400 font-bold uppercase">Ajustado via Slider</p>
+                          <p className="text-[10px] text-slate-400 font-bold uppercase">RAT x FAP</p>
                         </div>
                       </div>
                       <p className="font-black text-slate-800">{taxSimulation.folha.rat.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</p>
@@ -1615,6 +3345,19 @@ const App: React.FC = () => {
                     </div>
                   </div>
 
+                  {taxSimulation.folha.cprb > 0 && (
+                    <div className="flex items-center justify-between p-4 bg-slate-50 rounded-2xl mt-6">
+                      <div className="flex items-center gap-3">
+                        <div className="w-10 h-10 bg-emerald-100 text-emerald-600 rounded-xl flex items-center justify-center font-black text-xs">CPRB</div>
+                        <div>
+                          <p className="text-sm font-black text-slate-800">Contribuição sobre a Receita Bruta</p>
+                          <p className="text-[10px] text-slate-400 font-bold uppercase">Substitui parte do INSS Patronal (LP/LR)</p>
+                        </div>
+                      </div>
+                      <p className="font-black text-slate-800">{taxSimulation.folha.cprb.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</p>
+                    </div>
+                  )}
+
                   <div className="mt-8 p-6 bg-indigo-600 rounded-3xl text-white">
                     <div className="flex justify-between items-center mb-2">
                       <span className="text-indigo-200 text-xs font-black uppercase tracking-widest">Total de Encargos Folha</span>
@@ -1630,6 +3373,222 @@ const App: React.FC = () => {
                     )}
                   </div>
                 </div>
+
+                {curvaDesoneracao.length > 0 && (
+                  <div className="bg-white p-8 rounded-[2rem] border border-slate-100 shadow-xl overflow-hidden">
+                    <h3 className="text-xl font-black mb-2 text-slate-800 flex items-center gap-2">
+                      <div className="w-1.5 h-6 bg-emerald-600 rounded-full"></div>
+                      Reoneração da Folha 2024-2028
+                    </h3>
+                    <p className="text-xs text-slate-500 font-medium mb-6">
+                      CPRB decrescente sobre a receita e INSS patronal crescente sobre a folha (Lei 14.973/2024), carga mensal no LP e no LR.
+                    </p>
+                    <div className="h-64 mb-6">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <ComposedChart data={curvaDesoneracao}>
+                          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                          <XAxis dataKey="ano" tick={{ fontSize: 10, fill: '#94a3b8' }} axisLine={false} tickLine={false} />
+                          <YAxis tickFormatter={(v) => `${(v / 1000).toFixed(0)}k`} tick={{ fontSize: 10, fill: '#94a3b8' }} axisLine={false} tickLine={false} />
+                          <Tooltip formatter={(value: number) => value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })} />
+                          <Legend wrapperStyle={{ fontSize: 10 }} />
+                          <Bar dataKey="cprb" name="CPRB" stackId="a" fill="#10b981" />
+                          <Bar dataKey="inssFolha" name="INSS Folha" stackId="a" fill="#4f46e5" radius={[6, 6, 0, 0]} />
+                          <Line type="monotone" dataKey="presumido" name="Total LP" stroke="#f59e0b" strokeWidth={2} />
+                          <Line type="monotone" dataKey="real" name="Total LR" stroke="#e11d48" strokeWidth={2} />
+                        </ComposedChart>
+                      </ResponsiveContainer>
+                    </div>
+                    <div className="grid grid-cols-5 gap-2">
+                      {curvaDesoneracao.map(c => (
+                        <div key={c.ano} className="p-3 bg-slate-50 rounded-xl text-center">
+                          <p className="text-xs font-black text-slate-800">{c.ano}</p>
+                          <p className="text-[9px] font-bold text-slate-400">CPRB {c.fatorCprb.toFixed(0)}% · Folha {c.aliquotaFolha.toFixed(0)}%</p>
+                          <p className={`text-[10px] font-black ${c.economia >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
+                            {c.economia.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}/mês
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <div className="bg-white p-8 rounded-[2rem] border border-slate-100 shadow-xl overflow-hidden">
+                  <h3 className="text-xl font-black mb-2 text-slate-800 flex items-center gap-2">
+                    <div className="w-1.5 h-6 bg-pink-600 rounded-full"></div>
+                    Custo Real por Empregado (CLT)
+                  </h3>
+                  <p className="text-xs text-slate-500 font-medium mb-6">
+                    Média mensal com 13º, férias + 1/3, FGTS sobre todas as verbas{provisionarMulta ? ', provisão da multa de 40%' : ''} e cota patronal de cada regime.
+                  </p>
+                  <div className="overflow-x-auto mb-8">
+                    <table className="w-full text-left text-xs">
+                      <thead>
+                        <tr className="text-[10px] font-black text-slate-400 uppercase tracking-widest border-b border-slate-100">
+                          <th className="py-2 pr-4">Faixa</th>
+                          <th className="py-2 pr-4 text-right">Salário</th>
+                          {REGIMES_FOLHA.map(r => (
+                            <th key={r.regime} className={`py-2 pr-4 text-right ${r.regime === regimeFolhaAtual ? 'text-indigo-600' : ''}`}>{r.label}</th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {custoFolha.porFaixa.map(({ faixa, custos }, idx) => (
+                          <tr key={idx} className="border-b border-slate-50">
+                            <td className="py-3 pr-4">
+                              <p className="font-black text-slate-800">{faixa.descricao}</p>
+                              <p className="text-[9px] font-bold text-slate-400 uppercase">{faixa.quantidade} empregado(s)</p>
+                            </td>
+                            <td className="py-3 pr-4 text-right font-bold text-slate-600">{faixa.salario.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</td>
+                            {custos.map(c => (
+                              <td key={c.regime} className="py-3 pr-4 text-right">
+                                <p className={`font-black ${c.regime === regimeFolhaAtual ? 'text-indigo-600' : 'text-slate-800'}`}>{c.custoMensal.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</p>
+                                <p className="text-[9px] font-bold text-slate-400">+{c.percentualEncargos.toFixed(1)}% sobre o salário</p>
+                              </td>
+                            ))}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  {custoFolha.porFaixa.length > 0 && (
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-8">
+                      {[
+                        { label: '13º Salário', valor: custoFolha.porFaixa[0].custos[0].provisao13 },
+                        { label: 'Férias + 1/3', valor: custoFolha.porFaixa[0].custos[0].provisaoFerias },
+                        { label: 'FGTS (8%)', valor: custoFolha.porFaixa[0].custos[0].fgts },
+                        { label: 'Multa FGTS (40%)', valor: custoFolha.porFaixa[0].custos[0].provisaoMulta }
+                      ].map((item, idx) => (
+                        <div key={idx} className="p-3 bg-slate-50 rounded-xl">
+                          <p className="text-[9px] font-black text-slate-400 uppercase">{item.label}</p>
+                          <p className="text-sm font-black text-slate-800">{item.valor.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</p>
+                          <p className="text-[9px] font-bold text-slate-400">por mês · {custoFolha.porFaixa[0].faixa.descricao}</p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  <h4 className="text-sm font-black text-slate-800 mb-4 uppercase tracking-widest">Desembolso Mensal da Folha ({REGIMES_FOLHA.find(r => r.regime === regimeFolhaAtual)?.label})</h4>
+                  <div className="h-64 mb-4">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart data={custoFolha.sazonal}>
+                        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                        <XAxis dataKey="label" tick={{ fontSize: 10, fill: '#94a3b8' }} axisLine={false} tickLine={false} />
+                        <YAxis tickFormatter={(v) => `${(v / 1000).toFixed(0)}k`} tick={{ fontSize: 10, fill: '#94a3b8' }} axisLine={false} tickLine={false} />
+                        <Tooltip formatter={(value: number) => value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })} />
+                        <Legend wrapperStyle={{ fontSize: 10 }} />
+                        <Bar dataKey="salarios" name="Salários" stackId="a" fill="#ec4899" />
+                        <Bar dataKey="decimoTerceiro" name="13º" stackId="a" fill="#8b5cf6" />
+                        <Bar dataKey="ferias" name="1/3 Férias" stackId="a" fill="#f59e0b" />
+                        <Bar dataKey="fgts" name="FGTS" stackId="a" fill="#fbcfe8" />
+                        <Bar dataKey="encargos" name="Encargos" stackId="a" fill="#4f46e5" radius={[6, 6, 0, 0]} />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
+                  <div className="p-4 bg-amber-50 border border-amber-100 rounded-2xl flex items-center justify-between gap-4">
+                    <p className="text-xs font-bold text-amber-800">
+                      Fator R com 13º e férias nos 12 meses (folha fixa: {custoFolha.fatorRFolhaFixa.toFixed(2)}%)
+                    </p>
+                    <span className={`text-lg font-black ${custoFolha.fatorRComPicos >= 28 ? 'text-emerald-600' : 'text-rose-600'}`}>
+                      {custoFolha.fatorRComPicos.toFixed(2)}%
+                    </span>
+                  </div>
+                </div>
+
+                {proLaboreOtimo && (
+                  <div className="bg-white p-8 rounded-[2rem] border border-slate-100 shadow-xl overflow-hidden">
+                    <h3 className="text-xl font-black mb-2 text-slate-800 flex items-center gap-2">
+                      <div className="w-1.5 h-6 bg-rose-600 rounded-full"></div>
+                      Pró-labore x Dividendos
+                    </h3>
+                    <p className="text-xs text-slate-500 font-medium mb-6">
+                      Carga combinada da empresa e dos sócios: INSS 11% até o teto, IRPF progressivo, Fator R de 28% e retenção de 10% sobre dividendos acima de R$ 50 mil/mês com o IRPF mínimo.
+                    </p>
+
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                      <div className="p-4 bg-slate-50 rounded-2xl">
+                        <p className="text-[10px] font-black text-slate-400 uppercase mb-1">Atual</p>
+                        <p className="text-lg font-black text-slate-800">{proLaboreOtimo.atual.proLaboreTotal.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</p>
+                        <p className="text-[10px] text-slate-500 font-bold">Carga: {proLaboreOtimo.atual.cargaTotal.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</p>
+                      </div>
+                      <div className="p-4 bg-emerald-50 rounded-2xl border border-emerald-100">
+                        <p className="text-[10px] font-black text-emerald-600 uppercase mb-1">Recomendado</p>
+                        <p className="text-lg font-black text-emerald-700">{proLaboreOtimo.otimo.proLaboreTotal.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</p>
+                        <p className="text-[10px] text-emerald-600 font-bold">{proLaboreOtimo.otimo.regime} · Anexo {proLaboreOtimo.otimo.anexo} · Fator R {proLaboreOtimo.otimo.fatorR.toFixed(1)}%</p>
+                      </div>
+                      <div className="p-4 bg-slate-900 rounded-2xl text-white">
+                        <p className="text-[10px] font-black text-indigo-300 uppercase mb-1">Economia Mensal</p>
+                        <p className="text-lg font-black">{proLaboreOtimo.economiaMensal.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</p>
+                        <button
+                          onClick={() => setSimMonthlyProLabore(Math.round(proLaboreOtimo.otimo.proLaboreTotal))}
+                          className="mt-1 text-[10px] font-black uppercase text-indigo-300 hover:text-white transition-colors"
+                        >
+                          Aplicar no simulador
+                        </button>
+                      </div>
+                    </div>
+
+                    {proLaboreOtimo.proLaboreFatorR > 0 && (
+                      <p className="text-[10px] text-slate-500 font-bold mb-4">
+                        Pró-labore mínimo para Fator R de 28%: {proLaboreOtimo.proLaboreFatorR.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}/mês
+                      </p>
+                    )}
+
+                    <div className="h-56 mb-6">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={proLaboreOtimo.cenarios}>
+                          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                          <XAxis dataKey="proLaboreTotal" tickFormatter={(v) => `${(v / 1000).toFixed(0)}k`} tick={{ fontSize: 10, fill: '#94a3b8' }} axisLine={false} tickLine={false} />
+                          <YAxis tickFormatter={(v) => `${(v / 1000).toFixed(0)}k`} tick={{ fontSize: 10, fill: '#94a3b8' }} axisLine={false} tickLine={false} />
+                          <Tooltip
+                            formatter={(value: number) => value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
+                            labelFormatter={(v) => `Pró-labore ${Number(v).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}`}
+                          />
+                          <Legend wrapperStyle={{ fontSize: 10 }} />
+                          <Line type="monotone" dataKey="cargaTotal" name="Carga total" stroke="#e11d48" strokeWidth={2} dot={false} />
+                          <Line type="monotone" dataKey="tributosEmpresa" name="Empresa" stroke="#4f46e5" strokeWidth={2} dot={false} />
+                        </LineChart>
+                      </ResponsiveContainer>
+                    </div>
+
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-left text-xs">
+                        <thead>
+                          <tr className="text-[10px] font-black text-slate-400 uppercase tracking-widest border-b border-slate-100">
+                            <th className="py-2 pr-4">Sócio</th>
+                            <th className="py-2 pr-4 text-right">Pró-labore</th>
+                            <th className="py-2 pr-4 text-right">Dividendos</th>
+                            <th className="py-2 pr-4 text-right">INSS</th>
+                            <th className="py-2 pr-4 text-right">IRPF</th>
+                            <th className="py-2 pr-4 text-right">IRRF Div.</th>
+                            <th className="py-2 pr-4 text-right">IRPFM</th>
+                            <th className="py-2 text-right">Líquido</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {proLaboreOtimo.socios.map((socio, idx) => (
+                            <tr key={idx} className="border-b border-slate-50">
+                              <td className="py-2 pr-4">
+                                <p className="font-black text-slate-800 uppercase">{socio.nome}</p>
+                                <p className="text-[9px] font-bold text-slate-400 uppercase">{socio.qualificacao}</p>
+                              </td>
+                              <td className="py-2 pr-4 text-right font-bold text-slate-700">{socio.proLabore.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</td>
+                              <td className="py-2 pr-4 text-right font-bold text-slate-700">{socio.dividendos.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</td>
+                              <td className="py-2 pr-4 text-right text-slate-500">{socio.inss.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</td>
+                              <td className="py-2 pr-4 text-right text-slate-500">{socio.irpf.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</td>
+                              <td className="py-2 pr-4 text-right text-slate-500">{socio.irrfDividendos.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</td>
+                              <td className="py-2 pr-4 text-right text-slate-500">{socio.irpfm.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</td>
+                              <td className="py-2 text-right font-black text-emerald-600">{socio.liquido.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                    {!brasilApiData?.qsa?.length && (
+                      <p className="text-[10px] text-slate-400 italic mt-3">Consulte o CNPJ para recomendar por sócio do QSA.</p>
+                    )}
+                  </div>
+                )}
               </div>
             </div>
           </div>
@@ -1644,12 +3603,22 @@ const App: React.FC = () => {
                 >
                   <Search size={18} /> Voltar para Análise
                 </button>
-                <button
-                  onClick={() => window.print()}
-                  className="bg-slate-900 text-white px-8 py-3 rounded-xl font-black shadow-xl hover:bg-slate-800 transition-all flex items-center gap-3"
-                >
-                  <FileText size={20} /> Exportar como PDF (A4)
-                </button>
+                <div className="flex items-center gap-3">
+                  {saveMessage && <span className="text-xs font-bold text-slate-500">{saveMessage}</span>}
+                  <button
+                    onClick={handleSaveSimulation}
+                    disabled={isSaving}
+                    className="bg-white text-slate-800 border-2 border-slate-200 px-6 py-3 rounded-xl font-black hover:border-indigo-500 hover:text-indigo-600 transition-all flex items-center gap-3 disabled:opacity-50"
+                  >
+                    <Save size={20} /> {isSaving ? 'Salvando...' : 'Salvar Simulação'}
+                  </button>
+                  <button
+                    onClick={() => window.print()}
+                    className="bg-slate-900 text-white px-8 py-3 rounded-xl font-black shadow-xl hover:bg-slate-800 transition-all flex items-center gap-3"
+                  >
+                    <FileText size={20} /> Exportar como PDF (A4)
+                  </button>
+                </div>
               </div>
 
               {/* A4 Content Area */}
@@ -1669,6 +3638,7 @@ const App: React.FC = () => {
                     </div>
                     <div className="report-subtitle md:text-right">
                       Data: <span className="text-slate-900">{new Date().toLocaleDateString('pt-BR', { day: 'numeric', month: 'long', year: 'numeric' })}</span>
+                      <div className="text-[10px] mt-1">Tabelas tributárias: <span className="text-slate-900">v{taxSimulation.versaoRegras}</span></div>
                     </div>
                     <div className="report-subtitle">
                       <div className="mb-1">Cliente: <span className="text-slate-900 font-extrabold">{companyInfo.name || brasilApiData?.razao_social || "NÃO IDENTIFICADO"}</span></div>
@@ -1681,7 +3651,7 @@ const App: React.FC = () => {
                 <h2 className="report-section-header">1. Sumário Executivo</h2>
                 <p className="report-body-text">
                   Este diagnóstico estratégico avalia a viabilidade fiscal da empresa e traça o plano de contingência para a virada do sistema tributário nacional.
-                  Com faturamento anual de <strong>{(simRbt12 || totalBilling).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</strong>, definimos que o cenário de <strong>maior eficiência</strong> é o {taxSimulation.sugestao.includes("Simples") ? "Simples Nacional" : "Lucro Presumido"}.
+                  Com faturamento anual de <strong>{(simRbt12 || totalBilling).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</strong>, definimos que o cenário de <strong>maior eficiência</strong> é o {regimeVencedor}.
                 </p>
 
                 {/* Recomendação Principal */}
@@ -1691,20 +3661,35 @@ const App: React.FC = () => {
                     <h3 className="recommendation-title">Parecer de Inteligência</h3>
                   </div>
                   <p className="report-body-text mb-4">
-                    {taxSimulation.sugestao.includes("Simples") ? (
+                    {regimeVencedor === "Simples Nacional" ? (
                       <>A análise técnica conclui que a <strong>manutenção no Simples Nacional</strong> é a estratégia vencedora. Este regime oferece a menor carga tributária efetiva e simplifica a gestão acessória, permitindo foco total na operação do negócio.</>
-                    ) : (
+                    ) : regimeVencedor === "Lucro Presumido" ? (
                       <>Identificamos que a <strong>migração para o Lucro Presumido</strong> é o caminho mais rentável. No patamar atual de faturamento e estrutura de custos, este regime supera a eficiência do Simples Nacional, maximizando a lucratividade líquida.</>
+                    ) : (
+                      <>Identificamos que a <strong>opção pelo Lucro Real</strong> é o caminho mais rentável. Com a margem atual, a tributação sobre o lucro efetivo, os créditos de PIS/COFINS não-cumulativos e a compensação de prejuízos superam os regimes presumidos.</>
                     )}
                   </p>
                   <ul className="economy-list">
                     <li className="economy-item">
-                      • Vantagem Mensal: {Math.abs(taxSimulation.simples.dasTotal - taxSimulation.lucroPresumido.total).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
+                      • Vantagem Mensal: {vantagemMensal.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
                     </li>
                     <li className="economy-item text-slate-900">
-                      • Ganho de Eficiência Anual: {(Math.abs(taxSimulation.simples.dasTotal - taxSimulation.lucroPresumido.total) * 12).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
+                      • Ganho de Eficiência Anual: {(vantagemMensal * 12).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
                     </li>
                   </ul>
+                  {pontoEquilibrio && (
+                    <p className="report-body-text mt-4">
+                      <strong>Ponto de equilíbrio Simples x Lucro Presumido:</strong> por faturamento, {descreverEquilibrio(pontoEquilibrio.faturamento)}{' '}
+                      Por folha de salários, {descreverEquilibrio(pontoEquilibrio.folha)}
+                    </p>
+                  )}
+                  {regimeVencedor === "Simples Nacional" && simIsB2B && (
+                    <p className="report-body-text mt-4">
+                      <strong>Regime híbrido (a partir de 2027):</strong> recolher CBS/IBS fora do DAS custaria {simplesHibrido.custoAdicional.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}/mês
+                      (reajuste de {simplesHibrido.reajustePreco.toFixed(2)}% para repasse) e ampliaria o crédito dos clientes B2B em {simplesHibrido.ganhoCreditoClientes.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}/mês.
+                      {simplesHibrido.vantajoso ? ' Recomendamos avaliar a opção.' : ' Nas condições atuais, recomendamos manter o Simples puro.'}
+                    </p>
+                  )}
                 </div>
 
                 {/* 2. Análise Comparativa */}
@@ -1729,11 +3714,30 @@ const App: React.FC = () => {
                       <td className="text-slate-900">{taxSimulation.simples.aliquotaEfetiva.toFixed(2)}%</td>
                       <td className="text-slate-900">{taxSimulation.simples.dasTotal.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</td>
                     </tr>
+                    {taxSimulation.simples.sublimiteExcedido && (
+                      <tr className="bg-slate-50/50">
+                        <td className="text-slate-400 italic">ICMS/ISS fora do DAS (Sublimite)</td>
+                        <td className="text-slate-400 font-medium">---</td>
+                        <td className="text-slate-400 font-bold">+{(taxSimulation.simples.icmsForaDoDas + taxSimulation.simples.issForaDoDas + taxSimulation.simples.ibsForaDoDas).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</td>
+                      </tr>
+                    )}
+                    {taxSimulation.simples.cppForaDoDas > 0 && (
+                      <tr className="bg-slate-50/50">
+                        <td className="text-slate-400 italic">CPP + RAT fora do DAS (Anexo IV)</td>
+                        <td className="text-slate-400 font-medium">---</td>
+                        <td className="text-slate-400 font-bold">+{taxSimulation.simples.cppForaDoDas.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</td>
+                      </tr>
+                    )}
                     <tr>
                       <td className="text-slate-500">Lucro Presumido</td>
                       <td className="text-slate-500">{taxSimulation.lucroPresumido.aliquotaEfetiva.toFixed(2)}%</td>
                       <td className="text-slate-500">{taxSimulation.lucroPresumido.total.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</td>
                     </tr>
+                    <tr>
+                      <td className="text-slate-500">Lucro Real</td>
+                      <td className="text-slate-500">{taxSimulation.lucroReal.aliquotaEfetiva.toFixed(2)}%</td>
+                      <td className="text-slate-500">{taxSimulation.lucroReal.total.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</td>
+                    </tr>
                     <tr className="bg-slate-50/50">
                       <td className="text-slate-400 italic">Reflexo Folha (Encargos LP)</td>
                       <td className="text-slate-400 font-medium">---</td>
@@ -1742,6 +3746,30 @@ const App: React.FC = () => {
                   </tbody>
                 </table>
 
+                <p className="report-body-text mb-2 mt-6">
+                  Composição do DAS estimado ({taxSimulation.simples.faixa}ª faixa), conforme a repartição oficial da LC 123/2006:
+                </p>
+                <table className="modern-table">
+                  <thead>
+                    <tr>
+                      <th>Tributo</th>
+                      <th>% do DAS</th>
+                      <th>Valor Mensal</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {(Object.keys(TRIBUTO_DAS_LABELS) as TributoDAS[])
+                      .filter(t => taxSimulation.simples.reparticao[t] > 0)
+                      .map(t => (
+                        <tr key={t}>
+                          <td>{TRIBUTO_DAS_LABELS[t]}</td>
+                          <td>{taxSimulation.simples.dasTotal > 0 ? (taxSimulation.simples.reparticao[t] / taxSimulation.simples.dasTotal * 100).toFixed(2) : '0.00'}%</td>
+                          <td>{taxSimulation.simples.reparticao[t].toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}</td>
+                        </tr>
+                      ))}
+                  </tbody>
+                </table>
+
 
                 <hr className="border-slate-100 my-5" />
 
@@ -1884,6 +3912,95 @@ const App: React.FC = () => {
               </div>
             </div>
           </div>
+        ) : activeTab === 'admin-rules' && isAdmin ? (
+          <div className="space-y-8 animate-in fade-in slide-in-from-bottom-8 duration-700">
+            <div className="mb-10 text-center max-w-2xl mx-auto">
+              <h2 className="text-3xl font-extrabold text-slate-800 mb-3 tracking-tight">Versões de Regras Tributárias</h2>
+              <p className="text-slate-500 text-lg">Revise e publique tabelas por data de vigência. Cada competência usa a versão vigente no período.</p>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+              <div className="lg:col-span-1 bg-white p-6 rounded-[2rem] border border-slate-100 shadow-xl">
+                <h3 className="text-lg font-black text-slate-800 mb-6 flex items-center gap-2">
+                  <div className="w-1.5 h-6 bg-indigo-600 rounded-full"></div>
+                  Versões
+                </h3>
+                <div className="space-y-3">
+                  {ruleVersions.map(v => (
+                    <button
+                      key={v.regras.versao}
+                      onClick={() => selectRuleVersion(v.regras.versao)}
+                      className={`w-full text-left p-4 rounded-xl border-2 transition-all ${adminVersao === v.regras.versao ? 'border-indigo-500 bg-indigo-50/50' : 'border-slate-100 hover:border-slate-200'}`}
+                    >
+                      <div className="flex justify-between items-center mb-1">
+                        <span className="text-sm font-black text-slate-800">v{v.regras.versao}</span>
+                        <span className={`text-[9px] font-black uppercase px-2 py-0.5 rounded ${v.status === 'publicado' ? 'bg-emerald-100 text-emerald-700' : 'bg-slate-100 text-slate-500'}`}>
+                          {v.status === 'publicado' ? 'Publicada' : 'Padrão'}
+                        </span>
+                      </div>
+                      <p className="text-[10px] font-bold text-slate-500">Vigência: {new Date(`${v.regras.vigenciaInicio}T00:00:00`).toLocaleDateString('pt-BR')}</p>
+                      <p className="text-[10px] text-slate-400 leading-tight mt-1">{v.regras.descricao}</p>
+                      {v.publicadoEm && (
+                        <p className="text-[9px] text-slate-400 mt-1">Publicada em {new Date(v.publicadoEm).toLocaleString('pt-BR')}</p>
+                      )}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="lg:col-span-2 bg-white p-6 rounded-[2rem] border border-slate-100 shadow-xl">
+                <h3 className="text-lg font-black text-slate-800 mb-2 flex items-center gap-2">
+                  <div className="w-1.5 h-6 bg-violet-600 rounded-full"></div>
+                  Editor {adminVersao && `(base v${adminVersao})`}
+                </h3>
+                <p className="text-xs text-slate-400 font-medium mb-4">
+                  Para criar uma nova versão, altere <code>versao</code> e <code>vigenciaInicio</code>. Publicar uma versão existente a substitui.
+                </p>
+                <textarea
+                  value={adminJson}
+                  onChange={(e) => { setAdminJson(e.target.value); setAdminErrors([]); setAdminMessage(null); }}
+                  placeholder="Selecione uma versão para revisar."
+                  spellCheck={false}
+                  className="w-full h-[480px] p-4 bg-slate-900 text-emerald-300 font-mono text-xs rounded-xl outline-none border-2 border-slate-800 focus:border-indigo-500"
+                />
+
+                {ruleSetsError && (
+                  <div className="mt-4 p-4 bg-rose-50 border border-rose-100 rounded-xl text-xs font-bold text-rose-700 flex items-center gap-2">
+                    <AlertCircle size={12} /> {ruleSetsError}
+                  </div>
+                )}
+                {adminErrors.length > 0 && (
+                  <div className="mt-4 p-4 bg-rose-50 border border-rose-100 rounded-xl">
+                    {adminErrors.map((erro, idx) => (
+                      <p key={idx} className="text-xs font-bold text-rose-700 flex items-center gap-2"><AlertCircle size={12} /> {erro}</p>
+                    ))}
+                  </div>
+                )}
+                {adminMessage && (
+                  <div className="mt-4 p-4 bg-emerald-50 border border-emerald-100 rounded-xl text-xs font-bold text-emerald-700 flex items-center gap-2">
+                    <CheckCircle2 size={14} /> {adminMessage}
+                  </div>
+                )}
+
+                <div className="flex justify-end gap-3 mt-6">
+                  <button
+                    onClick={() => { if (parseAdminJson()) setAdminMessage('Estrutura válida.'); }}
+                    disabled={!adminJson}
+                    className="px-6 py-3 rounded-xl font-black text-sm border-2 border-slate-200 text-slate-700 hover:border-indigo-500 transition-all disabled:opacity-50"
+                  >
+                    Validar
+                  </button>
+                  <button
+                    onClick={handlePublishRuleSet}
+                    disabled={!adminJson || isPublishing}
+                    className="px-6 py-3 rounded-xl font-black text-sm bg-indigo-600 text-white shadow-lg hover:bg-indigo-700 transition-all disabled:opacity-50"
+                  >
+                    {isPublishing ? 'Publicando...' : 'Publicar Versão'}
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
         ) : null}
       </main>
 
@@ -0,0 +1,170 @@
+/**
+ * TanTax Break-even - Faturamento e folha em que o Lucro Presumido passa a superar o Simples Nacional
+ * e mapa do regime mais barato por faixa de RBT12 e folha
+ */
+
+import { TaxResults, RegimeTributario } from './taxEngine';
+
+export type VariavelEquilibrio = 'faturamento' | 'folha';
+
+export interface PontoCurvaEquilibrio {
+    valor: number;
+    simples: number | null; // null quando o Simples não é elegível no ponto
+    presumido: number;
+}
+
+export interface PontoEquilibrio {
+    variavel: VariavelEquilibrio;
+    atual: number;
+    equilibrio: number | null; // Virada de custo mais próxima do valor atual, entre pontos com Simples elegível
+    margemSeguranca: number | null; // % de variação até a virada (negativa: abaixo do valor atual)
+    limiteElegibilidade: number | null; // Valor em que o Simples deixa (ou passa a ser) elegível, mais próximo do atual
+    margemElegibilidade: number | null; // % de variação até o limite de elegibilidade
+    vencedorAtual: 'Simples Nacional' | 'Lucro Presumido';
+    curva: PontoCurvaEquilibrio[];
+}
+
+// Diferença Simples - LP na carga comparável; null quando o Simples não é elegível (não há custo a comparar)
+const diferenca = (res: TaxResults): number | null =>
+    res.simples.elegivel ? res.comparativo.simples - res.comparativo.presumido : null;
+
+const maisProximo = (valores: number[], atual: number): number | null =>
+    valores.length > 0 ? valores.reduce((a, b) => (Math.abs(b - atual) < Math.abs(a - atual) ? b : a)) : null;
+
+const margem = (valor: number | null, atual: number): number | null =>
+    valor !== null && atual > 0 ? ((valor - atual) / atual) * 100 : null;
+
+/**
+ * Varre a faixa [minimo, maximo] procurando trocas de sinal entre Simples e LP e refina por bisseção
+ * a virada mais próxima do valor atual. `simular` recebe o valor mensal da variável (faturamento ou
+ * salários) e devolve a simulação consolidada com os demais parâmetros fixos. Pontos em que o Simples
+ * não é elegível não contam como virada de custo: a perda de elegibilidade (ex.: limite de R$ 4,8 mi)
+ * é devolvida à parte, em `limiteElegibilidade`.
+ */
+export function solveBreakEven(
+    variavel: VariavelEquilibrio,
+    simular: (valor: number) => TaxResults,
+    atual: number,
+    minimo: number,
+    maximo: number,
+    passos: number = 60
+): PontoEquilibrio {
+    const curva: PontoCurvaEquilibrio[] = [];
+    const diferencas: { valor: number; diff: number | null }[] = [];
+
+    for (let i = 0; i <= passos; i++) {
+        const valor = minimo + (maximo - minimo) * i / passos;
+        const res = simular(valor);
+        curva.push({
+            valor,
+            simples: res.simples.elegivel ? res.comparativo.simples : null,
+            presumido: res.comparativo.presumido
+        });
+        diferencas.push({ valor, diff: diferenca(res) });
+    }
+
+    const viradas: number[] = [];
+    const limites: number[] = [];
+    for (let i = 1; i < diferencas.length; i++) {
+        const a = diferencas[i - 1];
+        const b = diferencas[i];
+        let lo = a.valor;
+        let hi = b.valor;
+
+        // Troca de elegibilidade: bisseção sobre a elegibilidade, sem comparar custos
+        if ((a.diff === null) !== (b.diff === null)) {
+            const elegivelLo = a.diff !== null;
+            for (let k = 0; k < 30; k++) {
+                const meio = (lo + hi) / 2;
+                if ((diferenca(simular(meio)) !== null) === elegivelLo) lo = meio;
+                else hi = meio;
+            }
+            limites.push((lo + hi) / 2);
+            continue;
+        }
+
+        if (a.diff === null || b.diff === null || (a.diff < 0) === (b.diff < 0)) continue;
+
+        const sinalLo = a.diff < 0;
+        let valida = true;
+        for (let k = 0; k < 30; k++) {
+            const meio = (lo + hi) / 2;
+            const diff = diferenca(simular(meio));
+            if (diff === null) { valida = false; break; }
+            if ((diff < 0) === sinalLo) lo = meio;
+            else hi = meio;
+        }
+        if (valida) viradas.push((lo + hi) / 2);
+    }
+
+    const equilibrio = maisProximo(viradas, atual);
+    const limiteElegibilidade = maisProximo(limites, atual);
+    const diffAtual = diferenca(simular(atual));
+
+    return {
+        variavel,
+        atual,
+        equilibrio,
+        margemSeguranca: margem(equilibrio, atual),
+        limiteElegibilidade,
+        margemElegibilidade: margem(limiteElegibilidade, atual),
+        vencedorAtual: diffAtual !== null && diffAtual <= 0 ? 'Simples Nacional' : 'Lucro Presumido',
+        curva
+    };
+}
+
+export interface CelulaMapaRegime {
+    rbt12: number;
+    folha: number; // Mensal (salários + pró-labore)
+    regime: RegimeTributario;
+    carga: number; // Carga mensal comparável do regime vencedor
+    economia: number; // Diferença para o segundo regime elegível
+}
+
+export interface MapaRegimes {
+    eixoRbt12: number[];
+    eixoFolha: number[];
+    celulas: CelulaMapaRegime[][]; // [linha da folha][coluna do RBT12]
+    posicaoAtual: { linha: number; coluna: number };
+    economiaMaxima: number;
+}
+
+const rankRegimes = (res: TaxResults): { regime: RegimeTributario; total: number }[] => {
+    const candidatos: { regime: RegimeTributario; total: number }[] = [{ regime: 'Lucro Real', total: res.comparativo.real }];
+    if (res.lucroPresumido.elegivel) candidatos.push({ regime: 'Lucro Presumido', total: res.comparativo.presumido });
+    if (res.simples.elegivel) candidatos.push({ regime: 'Simples Nacional', total: res.comparativo.simples });
+    return candidatos.sort((a, b) => a.total - b.total);
+};
+
+const indiceMaisProximo = (eixo: number[], valor: number): number =>
+    eixo.reduce((melhor, v, i) => (Math.abs(v - valor) < Math.abs(eixo[melhor] - valor) ? i : melhor), 0);
+
+/**
+ * Regime de menor carga em cada combinação de RBT12 e folha mensal. `simular` recebe o RBT12 e a
+ * folha do ponto e devolve a simulação consolidada com os demais parâmetros fixos.
+ */
+export function buildRegimeHeatmap(
+    simular: (rbt12: number, folha: number) => TaxResults,
+    eixoRbt12: number[],
+    eixoFolha: number[],
+    atual: { rbt12: number; folha: number }
+): MapaRegimes {
+    const celulas = eixoFolha.map(folha => eixoRbt12.map(rbt12 => {
+        const ranking = rankRegimes(simular(rbt12, folha));
+        return {
+            rbt12,
+            folha,
+            regime: ranking[0].regime,
+            carga: ranking[0].total,
+            economia: ranking.length > 1 ? ranking[1].total - ranking[0].total : 0
+        };
+    }));
+
+    return {
+        eixoRbt12,
+        eixoFolha,
+        celulas,
+        posicaoAtual: { linha: indiceMaisProximo(eixoFolha, atual.folha), coluna: indiceMaisProximo(eixoRbt12, atual.rbt12) },
+        economiaMaxima: Math.max(0, ...celulas.flat().map(c => c.economia))
+    };
+}
@@ -1,23 +1,34 @@
 
-export type AppActivity = 'comercio' | 'industria' | 'servico_geral' | 'servico_intellectual' | 'hospitalar';
+import { CNAE_SUBCLASSES } from './cnaeSubclasses';
+import { PresuncaoLP } from './taxRules';
+
+export type AppActivity = 'comercio' | 'industria' | 'servico_geral' | 'servico_intellectual' | 'hospitalar' | 'servico_anexo_iv';
+
+// Tributo sobre o consumo fora do Simples: 'nenhum' para receitas sem ISS nem ICMS (ex.: locação e venda de imóveis)
+export type TributoConsumo = 'iss' | 'icms' | 'nenhum';
 
 export const CNAE_MAPPING: Record<string, AppActivity> = {
-    // Comércio
+    // Comércio (inclui alimentação, Anexo I)
     '45': 'comercio',
     '46': 'comercio',
     '47': 'comercio',
+    '56': 'comercio',
+    // Produção rural e extração
+    '01': 'comercio', '02': 'comercio', '03': 'comercio',
+    '05': 'industria', '06': 'industria', '07': 'industria', '08': 'industria', '09': 'industria',
     // Indústria
     '10': 'industria', '11': 'industria', '12': 'industria', '13': 'industria', '14': 'industria',
     '15': 'industria', '16': 'industria', '17': 'industria', '18': 'industria', '19': 'industria',
     '20': 'industria', '21': 'industria', '22': 'industria', '23': 'industria', '24': 'industria',
     '25': 'industria', '26': 'industria', '27': 'industria', '28': 'industria', '29': 'industria',
-    '30': 'industria', '31': 'industria', '32': 'industria', '33': 'industria',
-    // Serviços Gerais
+    '30': 'industria', '31': 'industria', '32': 'industria',
+    // Serviços Gerais (manutenção e instalação de máquinas: Anexo III, LC 123, art. 18, § 5º-B, IX)
+    '33': 'servico_geral',
     '35': 'servico_geral', '36': 'servico_geral', '37': 'servico_geral', '38': 'servico_geral',
-    '39': 'servico_geral', '41': 'servico_geral', '42': 'servico_geral', '43': 'servico_geral',
+    '39': 'servico_geral',
     '49': 'servico_geral', '50': 'servico_geral', '51': 'servico_geral', '52': 'servico_geral',
-    '53': 'servico_geral', '55': 'servico_geral', '56': 'servico_geral', '77': 'servico_geral',
-    '78': 'servico_geral', '79': 'servico_geral', '80': 'servico_geral', '81': 'servico_geral',
+    '53': 'servico_geral', '55': 'servico_geral', '68': 'servico_geral', '77': 'servico_geral',
+    '78': 'servico_geral', '79': 'servico_geral', '81': 'servico_geral',
     '82': 'servico_geral', '90': 'servico_geral', '91': 'servico_geral', '92': 'servico_geral',
     '93': 'servico_geral', '94': 'servico_geral', '95': 'servico_geral', '96': 'servico_geral',
     // Serviços Intelectuais
@@ -26,19 +37,172 @@ export const CNAE_MAPPING: Record<string, AppActivity> = {
     '73': 'servico_intellectual', '74': 'servico_intellectual', '75': 'servico_intellectual',
     '85': 'servico_intellectual',
     // Hospitalar
-    '86': 'hospitalar'
+    '86': 'hospitalar',
+    // Anexo IV (LC 123, art. 18, § 5º-C): Construção e Vigilância
+    '41': 'servico_anexo_iv', '42': 'servico_anexo_iv', '43': 'servico_anexo_iv',
+    '80': 'servico_anexo_iv'
+};
+
+// Classes (4 dígitos) que fogem da regra da divisão
+export const CNAE_CLASS_MAPPING: Record<string, AppActivity> = {
+    // Anexo IV: Advocacia, Limpeza/Conservação e Paisagismo
+    '6911': 'servico_anexo_iv',
+    '8121': 'servico_anexo_iv', '8122': 'servico_anexo_iv', '8129': 'servico_anexo_iv',
+    '8130': 'servico_anexo_iv'
+};
+
+// Divisões cujas subclasses divergem em anexo, presunção ou tributo sobre o consumo, com o ponto a confirmar
+const DIVISOES_AMBIGUAS: Record<string, string> = {
+    '01': 'Produção rural: confirme se há industrialização (Anexo II) e o enquadramento como produtor',
+    '02': 'Produção rural: confirme se há industrialização (Anexo II) e o enquadramento como produtor',
+    '03': 'Produção rural: confirme se há industrialização (Anexo II) e o enquadramento como produtor',
+    '41': 'Presunção de 8% só na empreitada com fornecimento de todos os materiais; sem materiais, 32%',
+    '42': 'Presunção de 8% só na empreitada com fornecimento de todos os materiais; sem materiais, 32%',
+    '43': 'Instalação e manutenção avulsas vão ao Anexo III; como parte de obra, ao Anexo IV',
+    '49': 'Transporte: presunção de 8% (cargas) ou 16% (passageiros); ISS se municipal, ICMS se intermunicipal',
+    '68': 'Atividades imobiliárias: locação de imóveis próprios é vedada ao Simples e não tem ISS',
+    '86': 'Equiparação hospitalar (8%/12%) exige sociedade empresária e normas da Anvisa; senão 32%'
+};
+
+// A tabela de subclasses é um mapa parcial da CNAE 2.3: o enquadramento pela divisão é sempre uma aproximação
+export const TOTAL_SUBCLASSES_MAPEADAS = Object.keys(CNAE_SUBCLASSES).length;
+const MOTIVO_DIVISAO = 'Subclasse fora do mapa parcial, enquadrada pela divisão: confirme anexo, presunção e tributo sobre o consumo';
+
+export interface ClassificacaoCnae {
+    subclasse: string; // 7 dígitos
+    descricao?: string;
+    activity: AppActivity;
+    anexo: 'I' | 'II' | 'III' | 'IV' | 'V';
+    fatorR: boolean; // Anexo V, ou III com Fator R >= 28%
+    presuncao?: PresuncaoLP; // Sem valor: percentuais da atividade na versão de regras vigente
+    tributoConsumo: TributoConsumo;
+    cbsIbs: EnquadramentoCbsIbs;
+    fonte: 'subclasse' | 'classe' | 'divisao' | 'residual';
+    ambiguo: boolean;
+    motivo?: string;
+}
+
+const ANEXO_ATIVIDADE: Record<AppActivity, ClassificacaoCnae['anexo']> = {
+    comercio: 'I',
+    industria: 'II',
+    servico_geral: 'III',
+    servico_anexo_iv: 'IV',
+    servico_intellectual: 'V',
+    hospitalar: 'V'
 };
 
-export const mapCnaeToActivity = (cnaeCode: string): AppActivity => {
-    const prefix = cnaeCode.substring(0, 2);
-    return CNAE_MAPPING[prefix] || 'servico_intellectual'; // Default to intellectual if unknown
+/**
+ * Enquadramento da subclasse CNAE: tabela de subclasses, depois classe e divisão.
+ * Códigos fora das tabelas caem no Anexo III, residual dos serviços (LC 123, art. 18, § 5º-F).
+ * Esses códigos, os enquadrados só pela divisão e as subclasses ambíguas são sinalizados para confirmação manual.
+ */
+export const classifyCnae = (cnaeCode: string): ClassificacaoCnae => {
+    // BrasilAPI devolve o código numérico: divisões 01-09 perdem o zero à esquerda
+    const code = cnaeCode.replace(/\D/g, '').padStart(7, '0');
+    const regra = CNAE_SUBCLASSES[code];
+    const classe = CNAE_CLASS_MAPPING[code.substring(0, 4)];
+    const divisao = CNAE_MAPPING[code.substring(0, 2)];
+
+    const activity: AppActivity = regra?.activity || classe || divisao || 'servico_geral';
+    const fonte: ClassificacaoCnae['fonte'] = regra ? 'subclasse' : classe ? 'classe' : divisao ? 'divisao' : 'residual';
+    const motivo = regra
+        ? regra.ambiguo
+        : fonte === 'residual'
+            ? 'CNAE sem enquadramento na tabela: Anexo III residual'
+            : fonte === 'divisao' ? DIVISOES_AMBIGUAS[code.substring(0, 2)] || MOTIVO_DIVISAO : undefined;
+    const servico = activity !== 'comercio' && activity !== 'industria';
+
+    return {
+        subclasse: code,
+        descricao: regra?.descricao,
+        activity,
+        anexo: ANEXO_ATIVIDADE[activity],
+        fatorR: ANEXO_ATIVIDADE[activity] === 'V',
+        presuncao: regra?.presuncao,
+        tributoConsumo: regra?.consumo || (servico ? 'iss' : 'icms'),
+        cbsIbs: getReducaoCbsIbs(code),
+        fonte,
+        ambiguo: !!motivo,
+        motivo
+    };
 };
 
-export const checkSimplesEligibility = (naturezaJuridica: string): { eligible: boolean; reason?: string } => {
-    // 2011 - Sociedade Anônima Aberta
-    // 2038 - Sociedade Anônima Fechada (depende, mas geralmente SA não entra no Simples facilmente sem regras específicas)
-    if (naturezaJuridica.includes('2011') || naturezaJuridica.includes('2046')) {
-        return { eligible: false, reason: 'Natureza Jurídica (S/A) impediva para Simples Nacional' };
+export const mapCnaeToActivity = (cnaeCode: string): AppActivity => classifyCnae(cnaeCode).activity;
+
+// Redução das alíquotas de CBS/IBS (LC 214/2025): 0,3 = 30%, 0,6 = 60%, 1 = alíquota zero
+export type ReducaoCbsIbs = 0 | 0.3 | 0.6 | 1;
+
+export interface EnquadramentoCbsIbs {
+    reducao: ReducaoCbsIbs;
+    fundamento: string;
+}
+
+// Divisões (2 dígitos) com redução setorial
+const CNAE_REDUCAO_DIVISAO: Record<string, EnquadramentoCbsIbs> = {
+    '85': { reducao: 0.6, fundamento: 'Serviços de educação (art. 129)' },
+    '86': { reducao: 0.6, fundamento: 'Serviços de saúde humana (art. 130)' },
+    '90': { reducao: 0.6, fundamento: 'Atividades artísticas e culturais (art. 136)' }
+};
+
+// Classes (4 dígitos): profissões intelectuais regulamentadas e exceções à divisão
+const CNAE_REDUCAO_CLASSE: Record<string, EnquadramentoCbsIbs> = {
+    '6911': { reducao: 0.3, fundamento: 'Advocacia (art. 127)' },
+    '6920': { reducao: 0.3, fundamento: 'Contabilidade, auditoria e consultoria contábil (art. 127)' },
+    '7111': { reducao: 0.3, fundamento: 'Arquitetura (art. 127)' },
+    '7112': { reducao: 0.3, fundamento: 'Engenharia (art. 127)' },
+    '7119': { reducao: 0.3, fundamento: 'Agrimensura e serviços técnicos de engenharia (art. 127)' },
+    '7120': { reducao: 0.3, fundamento: 'Química - testes e análises técnicas (art. 127)' },
+    '7500': { reducao: 0.3, fundamento: 'Medicina veterinária (art. 127)' },
+    '7319': { reducao: 0.6, fundamento: 'Comunicação institucional (art. 140)' },
+    '9311': { reducao: 0.6, fundamento: 'Atividades desportivas (art. 136)' },
+    '9312': { reducao: 0.6, fundamento: 'Atividades desportivas (art. 136)' },
+    '9313': { reducao: 0.6, fundamento: 'Atividades desportivas (art. 136)' },
+    '9319': { reducao: 0.6, fundamento: 'Atividades desportivas (art. 136)' },
+    '4921': { reducao: 1, fundamento: 'Transporte público coletivo urbano e metropolitano (art. 157)' },
+    '4724': { reducao: 1, fundamento: 'Hortícolas, frutas e ovos (art. 148)' }
+};
+
+/**
+ * Enquadramento da atividade nas reduções de CBS/IBS da LC 214/2025 pelo CNAE.
+ * A redução depende do serviço prestado (NBS) e de requisitos do prestador; o resultado
+ * é um ponto de partida que pode ser ajustado em cada linha de atividade.
+ */
+export const getReducaoCbsIbs = (cnaeCode: string): EnquadramentoCbsIbs => {
+    const code = cnaeCode.replace(/\D/g, '').padStart(7, '0');
+    return CNAE_REDUCAO_CLASSE[code.substring(0, 4)]
+        || CNAE_REDUCAO_DIVISAO[code.substring(0, 2)]
+        || { reducao: 0, fundamento: 'Alíquota padrão' };
+};
+
+// Naturezas jurídicas fora do art. 3º da LC 123 (sociedades por ações, administração pública) e
+// estabelecimentos de sociedade com sede no exterior (art. 3º, § 4º, II)
+const NATUREZAS_IMPEDITIVAS: Record<string, string> = {
+    '2011': 'Empresa Pública',
+    '2038': 'Sociedade de Economia Mista',
+    '2046': 'Sociedade Anônima Aberta',
+    '2054': 'Sociedade Anônima Fechada',
+    '2097': 'Sociedade em Comandita por Ações',
+    '2178': 'Estabelecimento, no Brasil, de Sociedade Estrangeira',
+    '2216': 'Empresa Domiciliada no Exterior'
+};
+
+// Naturezas admitidas só em parte: cooperativas de consumo podem optar, as demais não (LC 123, art. 3º, § 4º, VI)
+const NATUREZAS_A_VERIFICAR: Record<string, string> = {
+    '2143': 'Cooperativa: só a de consumo pode optar pelo Simples Nacional'
+};
+
+// verificar: a elegibilidade depende de informação que não consta da natureza jurídica
+export const checkSimplesEligibility = (naturezaJuridica: string): { eligible: boolean; verificar?: boolean; reason?: string } => {
+    const codigo = naturezaJuridica.replace(/\D/g, '').substring(0, 4);
+    if (NATUREZAS_IMPEDITIVAS[codigo]) {
+        return { eligible: false, reason: `Natureza Jurídica ${codigo} (${NATUREZAS_IMPEDITIVAS[codigo]}) impeditiva para o Simples Nacional` };
+    }
+    if (NATUREZAS_A_VERIFICAR[codigo]) {
+        return { eligible: true, verificar: true, reason: `Natureza Jurídica ${codigo} (${NATUREZAS_A_VERIFICAR[codigo]})` };
+    }
+    // 1xxx: administração pública; 3xxx: entidades sem fins lucrativos; 4xxx/5xxx: pessoas físicas e organizações internacionais
+    if (['1', '3', '4', '5'].includes(codigo.charAt(0))) {
+        return { eligible: false, reason: `Natureza Jurídica ${codigo} não é sociedade empresária, simples ou empresário` };
     }
     return { eligible: true };
 };
@@ -0,0 +1,161 @@
+/**
+ * TanTax CNAE - Tabela de subclasses (7 dígitos) com enquadramento tributário próprio. Mapa parcial da
+ * CNAE 2.3 com as subclasses de enquadramento divergente mais comuns; as demais caem na classe ou na divisão.
+ */
+
+import { AppActivity, TributoConsumo } from './cnaeMapper';
+import { PresuncaoLP } from './taxRules';
+
+export interface RegraCnae {
+    descricao: string;
+    activity: AppActivity;
+    presuncao?: PresuncaoLP; // Sem valor: percentuais da atividade na versão de regras vigente
+    consumo?: TributoConsumo; // Sem valor: ISS para serviços, ICMS para comércio e indústria
+    ambiguo?: string; // Motivo para confirmação manual do enquadramento
+}
+
+// Lei 9.249/95, art. 15, § 1º, e art. 20
+const REVENDA_COMBUSTIVEIS: PresuncaoLP = { irpj: 0.016, csll: 0.12 };
+const TRANSPORTE_CARGAS: PresuncaoLP = { irpj: 0.08, csll: 0.12 };
+const TRANSPORTE_PASSAGEIROS: PresuncaoLP = { irpj: 0.16, csll: 0.12 };
+const VENDA_IMOVEIS: PresuncaoLP = { irpj: 0.08, csll: 0.12 };
+
+const EQUIPARACAO_HOSPITALAR = 'Presunção de 8%/12% exige sociedade empresária e normas da Anvisa (Lei 9.249/95, art. 15, § 1º, III, a); senão 32%';
+const EMPREITADA = 'Presunção de 8% só na empreitada com fornecimento de todos os materiais; sem materiais, 32%';
+const ISS_OU_ICMS = 'Municipal: ISS; intermunicipal ou interestadual: ICMS';
+const INSTALACAO_OU_OBRA = 'Instalação e manutenção avulsas vão ao Anexo III; como parte de obra, ao Anexo IV (LC 123, art. 18, § 5º-C)';
+
+export const CNAE_SUBCLASSES: Record<string, RegraCnae> = {
+    // Revenda de combustíveis: presunção de 1,6%
+    '4731800': { descricao: 'Comércio varejista de combustíveis para veículos automotores', activity: 'comercio', presuncao: REVENDA_COMBUSTIVEIS },
+    '4681801': { descricao: 'Comércio atacadista de álcool carburante, biodiesel, gasolina e derivados, exceto lubrificantes', activity: 'comercio', presuncao: REVENDA_COMBUSTIVEIS },
+    '4681802': { descricao: 'Comércio atacadista de combustíveis realizado por transportador retalhista (TRR)', activity: 'comercio', presuncao: REVENDA_COMBUSTIVEIS },
+    '4682600': { descricao: 'Comércio atacadista de gás liquefeito de petróleo (GLP)', activity: 'comercio', presuncao: REVENDA_COMBUSTIVEIS },
+    '4784900': { descricao: 'Comércio varejista de gás liquefeito de petróleo (GLP)', activity: 'comercio', presuncao: REVENDA_COMBUSTIVEIS },
+    '4681805': { descricao: 'Comércio atacadista de lubrificantes', activity: 'comercio' },
+    '4732600': { descricao: 'Comércio varejista de lubrificantes', activity: 'comercio' },
+
+    // Comércio com particularidades
+    '4771702': {
+        descricao: 'Comércio varejista de produtos farmacêuticos, com manipulação de fórmulas',
+        activity: 'comercio',
+        ambiguo: 'Manipulação sob encomenda vai ao Anexo III (LC 123, art. 18, § 5º-B, VI); revenda ao Anexo I'
+    },
+    '1091102': {
+        descricao: 'Fabricação de produtos de padaria e confeitaria com predominância de produção própria',
+        activity: 'industria',
+        ambiguo: 'Produtos de revenda da padaria são receita do Anexo I'
+    },
+    '1813001': {
+        descricao: 'Impressão de material para uso publicitário',
+        activity: 'industria',
+        ambiguo: 'Impressão personalizada sob encomenda é serviço sujeito ao ISS (Súmula 156 do STJ)'
+    },
+
+    // Imóveis
+    '6810201': { descricao: 'Compra e venda de imóveis próprios', activity: 'servico_geral', presuncao: VENDA_IMOVEIS, consumo: 'nenhum' },
+    '6810202': {
+        descricao: 'Aluguel de imóveis próprios',
+        activity: 'servico_geral',
+        consumo: 'nenhum',
+        ambiguo: 'Vedada ao Simples Nacional (LC 123, art. 17, XV)'
+    },
+    '6821801': { descricao: 'Corretagem na compra e venda e avaliação de imóveis', activity: 'servico_geral' },
+    '6822600': { descricao: 'Gestão e administração da propriedade imobiliária', activity: 'servico_geral' },
+
+    // Construção: Anexo IV, presunção conforme o fornecimento de materiais
+    '4120400': { descricao: 'Construção de edifícios', activity: 'servico_anexo_iv', ambiguo: EMPREITADA },
+    '4211101': { descricao: 'Construção de rodovias e ferrovias', activity: 'servico_anexo_iv', ambiguo: EMPREITADA },
+    '4222701': { descricao: 'Construção de redes de abastecimento de água, coleta de esgoto e construções correlatas', activity: 'servico_anexo_iv', ambiguo: EMPREITADA },
+    '4330404': { descricao: 'Serviços de pintura de edifícios em geral', activity: 'servico_anexo_iv' },
+    '4399103': { descricao: 'Obras de alvenaria', activity: 'servico_anexo_iv', ambiguo: EMPREITADA },
+    '4321500': { descricao: 'Instalação e manutenção elétrica', activity: 'servico_geral', ambiguo: INSTALACAO_OU_OBRA },
+    '4322301': { descricao: 'Instalações hidráulicas, sanitárias e de gás', activity: 'servico_geral', ambiguo: INSTALACAO_OU_OBRA },
+    '4322302': { descricao: 'Instalação e manutenção de sistemas centrais de ar condicionado, de ventilação e refrigeração', activity: 'servico_geral', ambiguo: INSTALACAO_OU_OBRA },
+    '4329104': { descricao: 'Montagem e instalação de sistemas e equipamentos de iluminação e sinalização', activity: 'servico_geral', ambiguo: INSTALACAO_OU_OBRA },
+
+    // Transporte: cargas 8%, passageiros 16%
+    '4930201': { descricao: 'Transporte rodoviário de carga, exceto produtos perigosos e mudanças, municipal', activity: 'servico_geral', presuncao: TRANSPORTE_CARGAS, consumo: 'iss' },
+    '4930202': { descricao: 'Transporte rodoviário de carga, exceto produtos perigosos e mudanças, intermunicipal, interestadual e internacional', activity: 'servico_geral', presuncao: TRANSPORTE_CARGAS, consumo: 'icms' },
+    '4930203': { descricao: 'Transporte rodoviário de produtos perigosos', activity: 'servico_geral', presuncao: TRANSPORTE_CARGAS, ambiguo: ISS_OU_ICMS },
+    '4930204': { descricao: 'Transporte rodoviário de mudanças', activity: 'servico_geral', presuncao: TRANSPORTE_CARGAS, ambiguo: ISS_OU_ICMS },
+    '4921301': { descricao: 'Transporte rodoviário coletivo de passageiros, com itinerário fixo, municipal', activity: 'servico_geral', presuncao: TRANSPORTE_PASSAGEIROS, consumo: 'iss' },
+    '4921302': { descricao: 'Transporte rodoviário coletivo de passageiros, com itinerário fixo, intermunicipal em região metropolitana', activity: 'servico_geral', presuncao: TRANSPORTE_PASSAGEIROS, consumo: 'icms' },
+    '4922101': {
+        descricao: 'Transporte rodoviário coletivo de passageiros, com itinerário fixo, intermunicipal, exceto em região metropolitana',
+        activity: 'servico_geral',
+        presuncao: TRANSPORTE_PASSAGEIROS,
+        consumo: 'icms',
+        ambiguo: 'Vedada ao Simples, salvo fretamento contínuo de estudantes ou trabalhadores (LC 123, art. 17, VI)'
+    },
+    '4922102': {
+        descricao: 'Transporte rodoviário coletivo de passageiros, com itinerário fixo, interestadual',
+        activity: 'servico_geral',
+        presuncao: TRANSPORTE_PASSAGEIROS,
+        consumo: 'icms',
+        ambiguo: 'Vedada ao Simples Nacional (LC 123, art. 17, VI)'
+    },
+    '4923001': { descricao: 'Serviço de táxi', activity: 'servico_geral', presuncao: TRANSPORTE_PASSAGEIROS, consumo: 'iss' },
+    '4929901': { descricao: 'Transporte rodoviário coletivo de passageiros, sob regime de fretamento, municipal', activity: 'servico_geral', presuncao: TRANSPORTE_PASSAGEIROS, consumo: 'iss' },
+    '4929902': { descricao: 'Transporte rodoviário coletivo de passageiros, sob regime de fretamento, intermunicipal, interestadual e internacional', activity: 'servico_geral', presuncao: TRANSPORTE_PASSAGEIROS, consumo: 'icms' },
+
+    // Saúde: Fator R (Anexo V/III), equiparação hospitalar no LP
+    '8610101': { descricao: 'Atividades de atendimento hospitalar, exceto pronto-socorro e unidades para atendimento a urgências', activity: 'hospitalar' },
+    '8610102': { descricao: 'Atividades de atendimento em pronto-socorro e unidades hospitalares para atendimento a urgências', activity: 'hospitalar' },
+    '8630501': { descricao: 'Atividade médica ambulatorial com recursos para realização de procedimentos cirúrgicos', activity: 'hospitalar', ambiguo: EQUIPARACAO_HOSPITALAR },
+    '8630502': { descricao: 'Atividade médica ambulatorial com recursos para realização de exames complementares', activity: 'hospitalar', ambiguo: EQUIPARACAO_HOSPITALAR },
+    '8630503': { descricao: 'Atividade médica ambulatorial restrita a consultas', activity: 'servico_intellectual' },
+    '8630504': { descricao: 'Atividade odontológica', activity: 'servico_intellectual' },
+    '8640202': { descricao: 'Laboratórios clínicos', activity: 'hospitalar', ambiguo: EQUIPARACAO_HOSPITALAR },
+    '8640205': { descricao: 'Serviços de diagnóstico por imagem com uso de radiação ionizante, exceto tomografia', activity: 'hospitalar', ambiguo: EQUIPARACAO_HOSPITALAR },
+    '8650001': { descricao: 'Atividades de enfermagem', activity: 'servico_intellectual' },
+    '8650003': { descricao: 'Atividades de psicologia e psicanálise', activity: 'servico_intellectual' },
+    '8650004': { descricao: 'Atividades de fisioterapia', activity: 'servico_geral' }, // Anexo III fixo (LC 123, art. 18, § 5º-B, XVI)
+    '8650006': { descricao: 'Atividades de fonoaudiologia', activity: 'servico_intellectual' },
+    '7500100': { descricao: 'Atividades veterinárias', activity: 'servico_intellectual' },
+
+    // Tecnologia e serviços intelectuais (Fator R, LC 123, art. 18, § 5º-I)
+    '6201501': { descricao: 'Desenvolvimento de programas de computador sob encomenda', activity: 'servico_intellectual' },
+    '6202300': { descricao: 'Desenvolvimento e licenciamento de programas de computador customizáveis', activity: 'servico_intellectual' },
+    '6203100': {
+        descricao: 'Desenvolvimento e licenciamento de programas de computador não-customizáveis',
+        activity: 'servico_intellectual',
+        ambiguo: 'Licenciamento ou cessão de uso de software vai ao Anexo III (LC 123, art. 18, § 5º-B, XV); desenvolvimento, ao Fator R'
+    },
+    '6204000': { descricao: 'Consultoria em tecnologia da informação', activity: 'servico_intellectual' },
+    '6209100': { descricao: 'Suporte técnico, manutenção e outros serviços em tecnologia da informação', activity: 'servico_intellectual' },
+    '6920601': { descricao: 'Atividades de contabilidade', activity: 'servico_geral' }, // Anexo III fixo (LC 123, art. 18, § 5º-B, XIV)
+    '6920602': { descricao: 'Atividades de consultoria e auditoria contábil e tributária', activity: 'servico_intellectual' },
+    '6911701': { descricao: 'Serviços advocatícios', activity: 'servico_anexo_iv' },
+    '7020400': { descricao: 'Atividades de consultoria em gestão empresarial, exceto consultoria técnica específica', activity: 'servico_intellectual' },
+    '7111100': { descricao: 'Serviços de arquitetura', activity: 'servico_intellectual' },
+    '7112000': { descricao: 'Serviços de engenharia', activity: 'servico_intellectual' },
+    '7311400': { descricao: 'Agências de publicidade', activity: 'servico_intellectual' },
+    '7410202': { descricao: 'Design de interiores', activity: 'servico_anexo_iv' }, // Decoração de interiores (LC 123, art. 18, § 5º-C)
+    '7420001': { descricao: 'Atividades de produção de fotografias, exceto aérea e submarina', activity: 'servico_geral' },
+    '7490104': { descricao: 'Atividades de intermediação e agenciamento de serviços e negócios em geral, exceto imobiliários', activity: 'servico_intellectual' },
+
+    // Serviços do Anexo III fixo
+    '4520001': {
+        descricao: 'Serviços de manutenção e reparação mecânica de veículos automotores',
+        activity: 'servico_geral',
+        ambiguo: 'Peças aplicadas no serviço são receita de mercadorias (Anexo I, ICMS)'
+    },
+    '9511800': { descricao: 'Reparação e manutenção de computadores e de equipamentos periféricos', activity: 'servico_geral' },
+    '5510801': { descricao: 'Hotéis', activity: 'servico_geral' },
+    '5211701': { descricao: 'Armazéns gerais - emissão de warrant', activity: 'servico_geral' },
+    '8513900': { descricao: 'Ensino fundamental', activity: 'servico_geral' },
+    '8593700': { descricao: 'Ensino de idiomas', activity: 'servico_geral' },
+    '8599603': { descricao: 'Treinamento em informática', activity: 'servico_geral' },
+    '8599604': { descricao: 'Treinamento em desenvolvimento profissional e gerencial', activity: 'servico_geral' },
+    '9313100': { descricao: 'Atividades de condicionamento físico', activity: 'servico_geral' },
+    '9602501': { descricao: 'Cabeleireiros, manicure e pedicure', activity: 'servico_geral' },
+    '8211300': { descricao: 'Serviços combinados de escritório e apoio administrativo', activity: 'servico_geral' },
+    '8219999': { descricao: 'Preparação de documentos e serviços especializados de apoio administrativo', activity: 'servico_geral' },
+    '8230001': { descricao: 'Serviços de organização de feiras, congressos, exposições e festas', activity: 'servico_geral' },
+
+    // Anexo IV: limpeza, vigilância e paisagismo
+    '8121400': { descricao: 'Limpeza em prédios e em domicílios', activity: 'servico_anexo_iv' },
+    '8011101': { descricao: 'Atividades de vigilância e segurança privada', activity: 'servico_anexo_iv' },
+    '8130300': { descricao: 'Atividades paisagísticas', activity: 'servico_anexo_iv' }
+};
@@ -0,0 +1,155 @@
+/**
+ * TanTax Folha - Custo do empregado CLT por regime: 13º, férias + 1/3, FGTS e provisões
+ */
+
+import { ALIQUOTA_CPP } from './taxEngine';
+
+export const ALIQUOTA_FGTS = 0.08;
+export const MULTA_FGTS = 0.40; // Dispensa sem justa causa (Lei 8.036/90, art. 18, § 1º)
+
+// Onde a cota patronal é recolhida: no DAS (Anexos I, II, III e V), em GPS no Anexo IV (sem terceiros)
+// ou integralmente sobre a folha no Lucro Presumido / Real
+export type RegimeFolha = 'simples' | 'simples_anexo_iv' | 'normal';
+
+export const REGIMES_FOLHA: { regime: RegimeFolha; label: string }[] = [
+    { regime: 'simples', label: 'Simples (I, II, III, V)' },
+    { regime: 'simples_anexo_iv', label: 'Simples Anexo IV' },
+    { regime: 'normal', label: 'Lucro Presumido / Real' }
+];
+
+export interface FaixaFuncionarios {
+    descricao: string;
+    quantidade: number;
+    salario: number; // Salário mensal por empregado
+    mesFerias?: number; // 1 a 12 (férias coletivas); sem valor, as férias se distribuem ao longo do ano
+}
+
+export interface EncargosFolhaParams {
+    ratRate: number; // RAT ajustado (RAT x FAP)
+    terceirosRate: number;
+    inssRate?: number; // INSS patronal fora do DAS (aliquotaInssPatronal); padrão: 20%
+    provisionarMulta?: boolean; // Provisão da multa de 40% do FGTS (padrão: sim)
+}
+
+export interface CustoEmpregado {
+    regime: RegimeFolha;
+    salario: number;
+    provisao13: number;
+    provisaoFerias: number; // Férias + 1/3, proporcional ao mês
+    fgts: number; // Sobre salário, 13º e férias
+    provisaoMulta: number;
+    inssPatronal: number;
+    rat: number;
+    terceiros: number;
+    custoMensal: number; // Média mensal (custo anual / 12)
+    custoAnual: number;
+    percentualEncargos: number; // % sobre o salário
+}
+
+export interface FolhaMes {
+    mes: number; // 1 a 12
+    salarios: number;
+    decimoTerceiro: number;
+    ferias: number; // Terço constitucional pago no mês de gozo
+    fgts: number;
+    encargos: number; // INSS patronal + RAT + terceiros do regime
+    provisaoMulta: number;
+    desembolso: number;
+    folhaFatorR: number; // Salários + 13º + férias + FGTS (folha considerada no Fator R)
+}
+
+// Remuneração anual: 12 salários (as férias substituem o salário do mês de gozo) + 13º + 1/3 de férias
+const REMUNERACAO_ANUAL = 12 + 1 + 1 / 3;
+
+const aliquotaPatronal = (regime: RegimeFolha, params: EncargosFolhaParams) => ({
+    inss: regime === 'simples' ? 0 : params.inssRate ?? ALIQUOTA_CPP,
+    rat: regime === 'simples' ? 0 : params.ratRate,
+    terceiros: regime === 'normal' ? params.terceirosRate : 0
+});
+
+/**
+ * Custo mensal médio de um empregado CLT no regime: remuneração anual (12 salários + 13º + 1/3 de
+ * férias) com FGTS, cota patronal e provisão da multa rescisória, dividida por 12.
+ */
+export function calculateCustoEmpregado(salario: number, regime: RegimeFolha, params: EncargosFolhaParams): CustoEmpregado {
+    const aliquotas = aliquotaPatronal(regime, params);
+    const remuneracaoAnual = salario * REMUNERACAO_ANUAL;
+    const fgtsAnual = remuneracaoAnual * ALIQUOTA_FGTS;
+    const multaAnual = params.provisionarMulta === false ? 0 : fgtsAnual * MULTA_FGTS;
+
+    const provisao13 = salario / 12;
+    const provisaoFerias = salario / 3 / 12;
+    const fgts = fgtsAnual / 12;
+    const provisaoMulta = multaAnual / 12;
+    const inssPatronal = remuneracaoAnual * aliquotas.inss / 12;
+    const rat = remuneracaoAnual * aliquotas.rat / 12;
+    const terceiros = remuneracaoAnual * aliquotas.terceiros / 12;
+
+    const custoMensal = salario + provisao13 + provisaoFerias + fgts + provisaoMulta + inssPatronal + rat + terceiros;
+
+    return {
+        regime,
+        salario,
+        provisao13,
+        provisaoFerias,
+        fgts,
+        provisaoMulta,
+        inssPatronal,
+        rat,
+        terceiros,
+        custoMensal,
+        custoAnual: custoMensal * 12,
+        percentualEncargos: salario > 0 ? (custoMensal / salario - 1) * 100 : 0
+    };
+}
+
+/**
+ * Desembolso mês a mês da folha no ano: 13º em duas parcelas (novembro e dezembro, Lei 4.749/65)
+ * e terço de férias no mês de gozo de cada faixa. Os picos aumentam a folha dos 12 meses usada
+ * no Fator R das competências seguintes.
+ */
+export function projectFolhaSazonal(
+    faixas: FaixaFuncionarios[],
+    regime: RegimeFolha,
+    params: EncargosFolhaParams
+): FolhaMes[] {
+    const aliquotas = aliquotaPatronal(regime, params);
+    const totalPatronal = aliquotas.inss + aliquotas.rat + aliquotas.terceiros;
+
+    return Array.from({ length: 12 }, (_, i) => {
+        const mes = i + 1;
+        let salarios = 0;
+        let decimoTerceiro = 0;
+        let ferias = 0;
+
+        faixas.forEach(f => {
+            const massa = f.quantidade * f.salario;
+            salarios += massa;
+            if (mes === 11 || mes === 12) decimoTerceiro += massa / 2;
+            if (f.mesFerias) {
+                if (f.mesFerias === mes) ferias += massa / 3;
+            } else {
+                ferias += massa / 3 / 12;
+            }
+        });
+
+        const remuneracao = salarios + decimoTerceiro + ferias;
+        const fgts = remuneracao * ALIQUOTA_FGTS;
+        // INSS patronal do 13º é recolhido integralmente em dezembro
+        const baseEncargos = salarios + ferias + (mes === 12 ? decimoTerceiro * 2 : 0);
+        const encargos = baseEncargos * totalPatronal;
+        const provisaoMulta = params.provisionarMulta === false ? 0 : fgts * MULTA_FGTS;
+
+        return {
+            mes,
+            salarios,
+            decimoTerceiro,
+            ferias,
+            fgts,
+            encargos,
+            provisaoMulta,
+            desembolso: remuneracao + fgts + encargos,
+            folhaFatorR: remuneracao + fgts
+        };
+    });
+}
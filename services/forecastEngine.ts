@@ -0,0 +1,188 @@
+/**
+ * TanTax Forecast - Projeção de faturamento (tendência + sazonalidade) e alertas de faixa e limites do Simples
+ */
+
+import { checkLimitesSimples, CompetenciaReceita, TOLERANCIA_EXCESSO } from './taxEngine';
+import { FaixaSimples } from './taxRules';
+
+export interface ProjecaoMes extends CompetenciaReceita {
+    projetado: boolean;
+    rbt12: number; // Receita dos 12 meses anteriores (anualizada com menos de 12 meses)
+    acumuladoAno: number; // Receita acumulada no ano-calendário até o mês
+    faixa: number;
+    limite: number; // Limite do ano-calendário, proporcional aos meses de atividade no ano de início
+    sublimite: number;
+}
+
+export type TipoAlertaLimite = 'faixa' | 'sublimite' | 'limite';
+
+export interface AlertaLimite {
+    tipo: TipoAlertaLimite;
+    ano: number;
+    mes: number; // Competência em que o valor ultrapassa o limite
+    projetado: boolean;
+    valor: number; // RBT12 (faixa) ou receita acumulada no ano (sublimite / limite)
+    limite: number;
+    excessoAcimaTolerancia: boolean; // Receita do ano acima do limite + 20%
+    inicioEfeitos?: { ano: number; mes: number };
+    descricao: string;
+}
+
+export interface ProjecaoFaturamento {
+    meses: ProjecaoMes[];
+    alertas: AlertaLimite[];
+    tendenciaMensal: number; // Variação linear da receita por mês
+    sazonalidade: number[]; // Índice multiplicativo por mês do ano (1 = média)
+    receitaProjetada12: number;
+    mediaProjetada: number;
+}
+
+const indiceMes = (c: { ano: number; mes: number }) => c.ano * 12 + (c.mes - 1);
+
+const formatarMoeda = (v: number) => v.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+const faixaPorRbt12 = (faixas: FaixaSimples[], rbt12: number) => {
+    const idx = faixas.findIndex(f => rbt12 <= f.limite);
+    return (idx >= 0 ? idx : faixas.length - 1) + 1;
+};
+
+/**
+ * Efeitos do excesso sobre o limite anual: até 20% acima, a partir de janeiro do ano seguinte;
+ * acima de 20%, a partir do mês seguinte ao do excesso (LC 123, art. 3º, §§ 9º e 9º-A; art. 20, §§ 1º e 1º-A).
+ * No ano de início de atividade, a exclusão por excesso acima de 20% retroage à abertura (art. 3º, § 10).
+ */
+const alertaLimiteAnual = (
+    tipo: 'sublimite' | 'limite',
+    limite: number,
+    mesesAno: ProjecaoMes[],
+    inicioAtividade?: { ano: number; mes: number }
+): AlertaLimite | null => {
+    const excesso = mesesAno.find(m => m.acumuladoAno > limite);
+    if (!excesso) return null;
+
+    const excessoTolerancia = mesesAno.find(m => m.acumuladoAno > limite * (1 + TOLERANCIA_EXCESSO));
+    const retroativo = !!excessoTolerancia && tipo === 'limite' && inicioAtividade?.ano === excesso.ano;
+    const inicioEfeitos = retroativo
+        ? inicioAtividade!
+        : excessoTolerancia
+            ? (excessoTolerancia.mes === 12
+                ? { ano: excessoTolerancia.ano + 1, mes: 1 }
+                : { ano: excessoTolerancia.ano, mes: excessoTolerancia.mes + 1 })
+            : { ano: excesso.ano + 1, mes: 1 };
+    const efeito = tipo === 'limite' ? 'exclusão do Simples Nacional' : 'ICMS/ISS fora do DAS';
+    const inicio = `${String(inicioEfeitos.mes).padStart(2, '0')}/${inicioEfeitos.ano}`;
+
+    return {
+        tipo,
+        ano: excesso.ano,
+        mes: excesso.mes,
+        projetado: excesso.projetado,
+        valor: excesso.acumuladoAno,
+        limite,
+        excessoAcimaTolerancia: !!excessoTolerancia,
+        inicioEfeitos,
+        descricao: excessoTolerancia
+            ? `Receita de ${excesso.ano} supera ${formatarMoeda(limite)} em mais de 20% em ${String(excessoTolerancia.mes).padStart(2, '0')}/${excessoTolerancia.ano}: ${efeito} ${retroativo ? `retroativa à abertura, em ${inicio}` : `já a partir de ${inicio}`}.`
+            : `Receita de ${excesso.ano} supera ${formatarMoeda(limite)} em ${String(excesso.mes).padStart(2, '0')}/${excesso.ano} dentro da tolerância de 20%: ${efeito} a partir de ${inicio}.`
+    };
+};
+
+/**
+ * Projeta os próximos meses por decomposição multiplicativa: tendência linear (mínimos quadrados)
+ * x índice sazonal do mês do ano, estimado quando há pelo menos 12 meses de histórico. Aponta as
+ * competências em que o RBT12 muda de faixa e os anos em que a receita acumulada ultrapassa o
+ * sublimite de R$ 3,6 mi ou o limite de R$ 4,8 mi, com o início dos efeitos pela regra dos 20%.
+ * Com `inicioAtividade`, o ano de abertura usa os limites proporcionais aos meses de atividade.
+ */
+export function forecastBilling(
+    historico: CompetenciaReceita[],
+    faixas: FaixaSimples[],
+    horizonte: number = 12,
+    inicioAtividade?: { ano: number; mes: number }
+): ProjecaoFaturamento {
+    const ordenada = [...historico].sort((a, b) => indiceMes(a) - indiceMes(b));
+    if (ordenada.length === 0) {
+        return { meses: [], alertas: [], tendenciaMensal: 0, sazonalidade: Array(12).fill(1), receitaProjetada12: 0, mediaProjetada: 0 };
+    }
+
+    const base = indiceMes(ordenada[0]);
+    const pontos = ordenada.map(c => ({ t: indiceMes(c) - base, mes: c.mes, receita: c.receita }));
+    const n = pontos.length;
+    const mediaT = pontos.reduce((acc, p) => acc + p.t, 0) / n;
+    const mediaReceita = pontos.reduce((acc, p) => acc + p.receita, 0) / n;
+    const varT = pontos.reduce((acc, p) => acc + (p.t - mediaT) ** 2, 0);
+    const tendenciaMensal = varT > 0
+        ? pontos.reduce((acc, p) => acc + (p.t - mediaT) * (p.receita - mediaReceita), 0) / varT
+        : 0;
+    const tendencia = (t: number) => mediaReceita + tendenciaMensal * (t - mediaT);
+
+    const sazonalidade = Array(12).fill(1);
+    if (n >= 12) {
+        const razoes: number[][] = Array.from({ length: 12 }, () => []);
+        pontos.forEach(p => {
+            const valorTendencia = tendencia(p.t);
+            if (valorTendencia > 0) razoes[p.mes - 1].push(p.receita / valorTendencia);
+        });
+        razoes.forEach((r, i) => { if (r.length > 0) sazonalidade[i] = r.reduce((a, b) => a + b, 0) / r.length; });
+        const mediaIndices = sazonalidade.reduce((a, b) => a + b, 0) / 12;
+        if (mediaIndices > 0) sazonalidade.forEach((v, i) => { sazonalidade[i] = v / mediaIndices; });
+    }
+
+    const ultimo = ordenada[ordenada.length - 1];
+    const projetados: CompetenciaReceita[] = Array.from({ length: horizonte }, (_, i) => {
+        const idx = indiceMes(ultimo) + i + 1;
+        const mes = (idx % 12) + 1;
+        return { ano: Math.floor(idx / 12), mes, receita: Math.max(0, tendencia(idx - base) * sazonalidade[mes - 1]) };
+    });
+
+    const serie = [...ordenada.map(c => ({ ...c, projetado: false })), ...projetados.map(c => ({ ...c, projetado: true }))];
+    const meses: ProjecaoMes[] = serie.map(c => {
+        const idx = indiceMes(c);
+        const anteriores = serie.filter(o => idx - indiceMes(o) >= 1 && idx - indiceMes(o) <= 12);
+        const baseRbt12 = anteriores.length > 0 ? anteriores : [c];
+        const soma = baseRbt12.reduce((acc, o) => acc + o.receita, 0);
+        const rbt12 = anteriores.length < 12 ? (soma / baseRbt12.length) * 12 : soma;
+        const acumuladoAno = serie
+            .filter(o => o.ano === c.ano && o.mes <= c.mes)
+            .reduce((acc, o) => acc + o.receita, 0);
+        const { limite, sublimite } = checkLimitesSimples({ ano: c.ano, mes: 12 }, 0, inicioAtividade);
+        return { ...c, rbt12, acumuladoAno, faixa: faixaPorRbt12(faixas, rbt12), limite, sublimite };
+    });
+
+    const alertas: AlertaLimite[] = [];
+    meses.forEach((m, i) => {
+        if (!m.projetado || i === 0 || m.faixa <= meses[i - 1].faixa) return;
+        alertas.push({
+            tipo: 'faixa',
+            ano: m.ano,
+            mes: m.mes,
+            projetado: true,
+            valor: m.rbt12,
+            limite: faixas[m.faixa - 2].limite,
+            excessoAcimaTolerancia: false,
+            descricao: `RBT12 de ${formatarMoeda(m.rbt12)} em ${String(m.mes).padStart(2, '0')}/${m.ano}: passa para a ${m.faixa}ª faixa do Simples.`
+        });
+    });
+
+    // Limites anuais apenas nos anos alcançados pela projeção
+    const anosProjetados = Array.from(new Set(meses.filter(m => m.projetado).map(m => m.ano)));
+    anosProjetados.forEach(ano => {
+        const mesesAno = meses.filter(m => m.ano === ano);
+        const limite = alertaLimiteAnual('limite', mesesAno[0].limite, mesesAno, inicioAtividade);
+        const sublimite = alertaLimiteAnual('sublimite', mesesAno[0].sublimite, mesesAno);
+        if (sublimite) alertas.push(sublimite);
+        if (limite) alertas.push(limite);
+    });
+
+    alertas.sort((a, b) => indiceMes(a) - indiceMes(b));
+
+    const receitaProjetada12 = projetados.slice(0, 12).reduce((acc, c) => acc + c.receita, 0);
+    return {
+        meses,
+        alertas,
+        tendenciaMensal,
+        sazonalidade,
+        receitaProjetada12,
+        mediaProjetada: projetados.length > 0 ? projetados.reduce((acc, c) => acc + c.receita, 0) / projetados.length : 0
+    };
+}
@@ -0,0 +1,134 @@
+/**
+ * TanTax Impedimentos - Checklist de vedações ao Simples Nacional pelo QSA, natureza jurídica e CNAEs
+ */
+
+import { BrasilAPI_CNPJ, BrasilAPI_Socio } from './brasilApiService';
+import { checkSimplesEligibility } from './cnaeMapper';
+import { LIMITE_SIMPLES } from './taxEngine';
+
+// 'verificar': depende de informação que não consta do cadastro do CNPJ
+export type StatusImpedimento = 'ok' | 'impedido' | 'verificar';
+
+export interface ItemImpedimento {
+    codigo: string;
+    descricao: string;
+    status: StatusImpedimento;
+    detalhe: string;
+    fundamento: string;
+}
+
+export interface ChecklistImpedimentos {
+    elegivel: boolean; // Nenhum item impeditivo (itens a verificar não bloqueiam)
+    itens: ItemImpedimento[];
+}
+
+// Qualificações do QSA (tabela da RFB) de sócios e titulares residentes ou domiciliados no exterior
+const QUALIFICACOES_EXTERIOR = [37, 38, 66, 74];
+
+// Atividades vedadas por prefixo da subclasse CNAE (Resolução CGSN 140/2018, Anexo VI); o mais específico primeiro
+const CNAES_VEDADOS: { prefixo: string; descricao: string; fundamento: string }[] = [
+    { prefixo: '6491300', descricao: 'Factoring', fundamento: 'LC 123, art. 17, I' },
+    { prefixo: '64', descricao: 'Instituições financeiras e de crédito', fundamento: 'LC 123, art. 3º, § 4º, VIII' },
+    { prefixo: '65', descricao: 'Seguros, resseguros e previdência complementar', fundamento: 'LC 123, art. 3º, § 4º, VIII' },
+    { prefixo: '351', descricao: 'Geração, transmissão e distribuição de energia elétrica', fundamento: 'LC 123, art. 17, VII' },
+    { prefixo: '291', descricao: 'Fabricação de automóveis', fundamento: 'LC 123, art. 17, VIII' },
+    { prefixo: '3091', descricao: 'Fabricação de motocicletas', fundamento: 'LC 123, art. 17, VIII' },
+    { prefixo: '1220', descricao: 'Fabricação de cigarros e produtos do fumo', fundamento: 'LC 123, art. 17, X, a' },
+    { prefixo: '2550', descricao: 'Fabricação de armas e munições', fundamento: 'LC 123, art. 17, X, a' },
+    { prefixo: '2092', descricao: 'Fabricação de explosivos', fundamento: 'LC 123, art. 17, X, a' },
+    { prefixo: '7810', descricao: 'Seleção e agenciamento de mão de obra', fundamento: 'LC 123, art. 17, XII' },
+    { prefixo: '7820', descricao: 'Locação de mão de obra temporária', fundamento: 'LC 123, art. 17, XII' },
+    { prefixo: '4110700', descricao: 'Incorporação de empreendimentos imobiliários', fundamento: 'LC 123, art. 17, XIV' },
+    { prefixo: '6810202', descricao: 'Aluguel de imóveis próprios', fundamento: 'LC 123, art. 17, XV' }
+];
+
+const cnaeCompleto = (codigo: number | string) => String(codigo).replace(/\D/g, '').padStart(7, '0');
+
+// BrasilAPI mascara o CPF do sócio (***123456**); CNPJ vem completo com 14 dígitos
+const isSocioPessoaJuridica = (socio: BrasilAPI_Socio) => socio.cnpj_cpf_do_socio.replace(/\D/g, '').length === 14;
+
+/**
+ * Avalia as vedações ao Simples Nacional com os dados do cadastro do CNPJ (LC 123, art. 3º, § 4º, e art. 17).
+ * A participação dos sócios em outras empresas não consta do cadastro: sem a receita dessas empresas
+ * (`receitaOutrasEmpresas`) o item fica a verificar; com ela, a receita global é comparada ao limite,
+ * que no ano de início de atividade é o proporcional aos meses de funcionamento (art. 3º, § 10).
+ */
+export function checkImpedimentosSimples(
+    dados: BrasilAPI_CNPJ,
+    receitaAnual: number,
+    receitaOutrasEmpresas?: number,
+    limite: number = LIMITE_SIMPLES
+): ChecklistImpedimentos {
+    const qsa = dados.qsa || [];
+    const itens: ItemImpedimento[] = [];
+
+    const natureza = checkSimplesEligibility(String(dados.codigo_natureza_juridica));
+    itens.push({
+        codigo: 'natureza',
+        descricao: 'Natureza jurídica admitida',
+        status: natureza.verificar ? 'verificar' : natureza.eligible ? 'ok' : 'impedido',
+        detalhe: natureza.reason || `${dados.codigo_natureza_juridica} - ${dados.natureza_juridica}`,
+        fundamento: 'LC 123, art. 3º, caput e § 4º, II, VI e X'
+    });
+
+    const sociosPJ = qsa.filter(isSocioPessoaJuridica);
+    itens.push({
+        codigo: 'socio_pj',
+        descricao: 'Nenhum sócio pessoa jurídica',
+        status: sociosPJ.length > 0 ? 'impedido' : 'ok',
+        detalhe: sociosPJ.length > 0 ? sociosPJ.map(s => s.nome_socio).join(', ') : 'Todos os sócios são pessoas físicas',
+        fundamento: 'LC 123, art. 3º, § 4º, I'
+    });
+
+    const sociosExterior = qsa.filter(s => QUALIFICACOES_EXTERIOR.includes(s.codigo_qualificacao_socio));
+    itens.push({
+        codigo: 'socio_exterior',
+        descricao: 'Nenhum sócio domiciliado no exterior',
+        status: sociosExterior.length > 0 ? 'impedido' : 'ok',
+        detalhe: sociosExterior.length > 0
+            ? sociosExterior.map(s => `${s.nome_socio} (${s.qualificacao_socio})`).join(', ')
+            : 'Nenhuma qualificação de residente no exterior no QSA',
+        fundamento: 'LC 123, art. 17, II'
+    });
+
+    itens.push({
+        codigo: 'participacao',
+        descricao: 'Receita global com empresas em que os sócios têm mais de 10%',
+        status: receitaOutrasEmpresas === undefined
+            ? 'verificar'
+            : receitaAnual + receitaOutrasEmpresas > limite ? 'impedido' : 'ok',
+        detalhe: receitaOutrasEmpresas === undefined
+            ? 'Informe a receita das outras empresas: a soma com a receita desta não pode passar do limite'
+            : `Receita global de ${(receitaAnual + receitaOutrasEmpresas).toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })} para o limite de ${limite.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}`,
+        fundamento: 'LC 123, art. 3º, § 4º, III, IV e V'
+    });
+
+    itens.push({
+        codigo: 'filial_exterior',
+        descricao: 'Sem filial, sucursal ou representação no exterior',
+        status: 'verificar',
+        detalhe: 'Não consta do cadastro do CNPJ',
+        fundamento: 'LC 123, art. 3º, § 4º, II'
+    });
+
+    const cnaes = [
+        { codigo: dados.cnae_fiscal, descricao: dados.cnae_fiscal_descricao },
+        ...(dados.cnaes_secundarios || [])
+    ].filter(c => c.codigo);
+    const vedados = cnaes
+        .map(c => ({ cnae: c, vedacao: CNAES_VEDADOS.find(v => cnaeCompleto(c.codigo).startsWith(v.prefixo)) }))
+        .filter(v => v.vedacao);
+    itens.push({
+        codigo: 'cnae',
+        descricao: 'Nenhuma atividade vedada',
+        status: vedados.length > 0 ? 'impedido' : 'ok',
+        detalhe: vedados.length > 0
+            ? vedados.map(v => `${v.cnae.codigo} - ${v.vedacao!.descricao}`).join('; ')
+            : `${cnaes.length} CNAE(s) sem vedação`,
+        fundamento: vedados.length > 0
+            ? Array.from(new Set(vedados.map(v => v.vedacao!.fundamento))).join('; ')
+            : 'LC 123, art. 17; Resolução CGSN 140/2018, Anexo VI'
+    });
+
+    return { elegivel: itens.every(i => i.status !== 'impedido'), itens };
+}
@@ -0,0 +1,44 @@
+/**
+ * TanTax ISS - Limites da alíquota do ISS e ISS fixo das sociedades uniprofissionais
+ */
+
+export const ISS_MINIMO = 0.02; // LC 116/03, art. 8º-A
+export const ISS_MAXIMO = 0.05; // LC 116/03, art. 8º, II
+
+export interface EnquadramentoIss {
+    aliquota: number;
+    estimativa: boolean; // Teto da LC 116 no lugar da alíquota da lei municipal
+    fundamento: string;
+}
+
+/**
+ * Alíquota de partida do ISS para o município do cadastro. Não há tabela de alíquotas municipais:
+ * o simulador parte do teto da LC 116 e a alíquota da lista de serviços do município é informada à mão.
+ */
+export function aliquotaIssPadrao(municipio?: string, uf?: string): EnquadramentoIss {
+    const local = municipio ? `de ${municipio}${uf ? `/${uf}` : ''}` : 'do município';
+    return {
+        aliquota: ISS_MAXIMO,
+        estimativa: true,
+        fundamento: `Teto da LC 116/03, art. 8º, II: informe a alíquota ${local} na lei municipal`
+    };
+}
+
+// Classes CNAE das profissões do art. 9º, § 3º, do DL 406/68 (lista anexa, itens 1, 4, 8, 25, 52, 88, 89, 90 e 92)
+const CLASSES_UNIPROFISSIONAIS: Record<string, string> = {
+    '8630': 'Médicos e dentistas',
+    '8650': 'Enfermeiros, psicólogos, fisioterapeutas e fonoaudiólogos',
+    '7500': 'Médicos veterinários',
+    '6920': 'Contadores e auditores',
+    '6911': 'Advogados',
+    '7111': 'Arquitetos e urbanistas',
+    '7112': 'Engenheiros e agrônomos'
+};
+
+/**
+ * Profissão regulamentada com direito ao ISS fixo por profissional habilitado quando a sociedade é
+ * uniprofissional (DL 406/68, art. 9º, §§ 1º e 3º). A forma societária e a pessoalidade na prestação
+ * são requisitos da legislação municipal que não constam do CNAE.
+ */
+export const getProfissaoUniprofissional = (cnaeCode: string): string | undefined =>
+    CLASSES_UNIPROFISSIONAIS[cnaeCode.replace(/\D/g, '').padStart(7, '0').substring(0, 4)];
@@ -0,0 +1,361 @@
+/**
+ * TanTax Pró-labore - Divisão ótima entre pró-labore e dividendos (empresa + sócios) e plano do Fator R
+ */
+
+import { AppActivity } from './cnaeMapper';
+import { TaxResults, CompetenciaFolha, buildCompetenceLedger, calculateSimplesAliquota, calculateDasRepartition } from './taxEngine';
+import { TaxRuleSet, DEFAULT_RULE_SETS, resolveRuleSet } from './taxRules';
+import { BrasilAPI_Socio } from './brasilApiService';
+
+// Contribuição do segurado contribuinte individual sobre o pró-labore (Lei 8.212/91, art. 21) limitada ao teto
+export const TETO_INSS = 8475.55; // 2026
+export const ALIQUOTA_INSS_SOCIO = 0.11;
+export const SALARIO_MINIMO = 1621; // 2026
+
+// Tabela progressiva mensal do IRPF (Lei 15.191/2025)
+const TABELA_IRPF: { limite: number; aliquota: number; deduzir: number }[] = [
+    { limite: 2428.80, aliquota: 0, deduzir: 0 },
+    { limite: 2826.65, aliquota: 0.075, deduzir: 182.16 },
+    { limite: 3751.05, aliquota: 0.15, deduzir: 394.16 },
+    { limite: 4664.68, aliquota: 0.225, deduzir: 675.49 },
+    { limite: Infinity, aliquota: 0.275, deduzir: 908.73 }
+];
+const DESCONTO_SIMPLIFICADO = 607.20;
+
+// Lei 15.270/2025: isenção até R$ 5 mil e redução decrescente até R$ 7.350 (a partir de 2026)
+const LIMITE_ISENCAO_IRPF = 5000;
+const LIMITE_REDUCAO_IRPF = 7350;
+
+// Lei 15.270/2025: retenção de 10% sobre o total de dividendos pagos no mês a uma mesma pessoa acima de R$ 50 mil
+export const LIMITE_DIVIDENDOS_MES = 50000;
+const ALIQUOTA_IRRF_DIVIDENDOS = 0.10;
+
+// IRPF mínimo (IRPFM): de 0% em R$ 600 mil a 10% a partir de R$ 1,2 mi de renda anual
+const IRPFM_INICIO = 600000;
+const IRPFM_PLENO = 1200000;
+
+// Qualificações da Receita que exercem a administração (05, 10, 16, 49, 65)
+const QUALIFICACOES_ADMINISTRADOR = [5, 10, 16, 49, 65];
+
+export interface CenarioProLabore {
+    proLaboreTotal: number; // Mensal, somando os sócios administradores
+    dividendosTotal: number;
+    fatorR: number; // %
+    anexo: string;
+    regime: string;
+    tributosEmpresa: number; // Carga mensal do regime escolhido (comparativo)
+    inssSocios: number;
+    irpfSocios: number;
+    irrfDividendos: number;
+    irpfm: number; // Mensalizado
+    cargaTotal: number; // Empresa + sócios
+}
+
+export interface RecomendacaoSocio {
+    nome: string;
+    qualificacao: string;
+    administrador: boolean;
+    proLabore: number;
+    dividendos: number;
+    inss: number;
+    irpf: number;
+    irrfDividendos: number;
+    irpfm: number; // Mensalizado
+    liquido: number;
+}
+
+export interface OtimizacaoProLabore {
+    atual: CenarioProLabore;
+    otimo: CenarioProLabore;
+    economiaMensal: number;
+    proLaboreFatorR: number; // Pró-labore mínimo para o Fator R de 28% (0 se já atingido pelos salários)
+    cenarios: CenarioProLabore[];
+    socios: RecomendacaoSocio[];
+}
+
+export function calculateInssSocio(proLabore: number): number {
+    return Math.min(proLabore, TETO_INSS) * ALIQUOTA_INSS_SOCIO;
+}
+
+/**
+ * IRPF mensal retido sobre o pró-labore: base com a maior dedução entre INSS e desconto simplificado,
+ * menos a redução da Lei 15.270/2025 para rendimentos até R$ 7.350.
+ */
+export function calculateIrpfProLabore(proLabore: number): number {
+    if (proLabore <= 0) return 0;
+    const base = proLabore - Math.max(calculateInssSocio(proLabore), DESCONTO_SIMPLIFICADO);
+    const faixa = TABELA_IRPF.find(f => base <= f.limite)!;
+    const imposto = Math.max(0, base * faixa.aliquota - faixa.deduzir);
+
+    if (proLabore <= LIMITE_ISENCAO_IRPF) return 0;
+    if (proLabore <= LIMITE_REDUCAO_IRPF) {
+        const reducao = Math.max(0, 978.62 - 0.133145 * proLabore);
+        return Math.max(0, imposto - reducao);
+    }
+    return imposto;
+}
+
+export function calculateIrrfDividendos(dividendosMes: number): number {
+    return dividendosMes > LIMITE_DIVIDENDOS_MES ? dividendosMes * ALIQUOTA_IRRF_DIVIDENDOS : 0;
+}
+
+/**
+ * IRPFM anual sobre pró-labore + dividendos, abatendo o IRPF e o IRRF já retidos.
+ * Não considera o redutor pela tributação da pessoa jurídica nem outras rendas do sócio.
+ */
+export function calculateIrpfm(rendaAnual: number, impostoPagoAnual: number): number {
+    if (rendaAnual <= IRPFM_INICIO) return 0;
+    const aliquota = Math.min(0.10, (rendaAnual - IRPFM_INICIO) / (IRPFM_PLENO - IRPFM_INICIO) * 0.10);
+    return Math.max(0, rendaAnual * aliquota - impostoPagoAnual);
+}
+
+const isAdministrador = (socio: BrasilAPI_Socio) => QUALIFICACOES_ADMINISTRADOR.includes(Number(socio.codigo_qualificacao_socio));
+
+const cargaEmpresa = (res: TaxResults): { regime: string; total: number } => {
+    const candidatos = [{ regime: 'Lucro Real', total: res.comparativo.real }];
+    if (res.lucroPresumido.elegivel) candidatos.unshift({ regime: 'Lucro Presumido', total: res.comparativo.presumido });
+    if (res.simples.elegivel) candidatos.unshift({ regime: 'Simples Nacional', total: res.comparativo.simples });
+    return candidatos.reduce((a, b) => (b.total < a.total ? b : a));
+};
+
+const tributosSocio = (proLabore: number, dividendos: number) => {
+    const inss = calculateInssSocio(proLabore);
+    const irpf = calculateIrpfProLabore(proLabore);
+    const irrfDividendos = calculateIrrfDividendos(dividendos);
+    const irpfm = calculateIrpfm((proLabore + dividendos) * 12, (irpf + irrfDividendos) * 12) / 12;
+    return { inss, irpf, irrfDividendos, irpfm };
+};
+
+/**
+ * Busca o pró-labore mensal que minimiza a carga combinada da empresa (regime de menor custo em cada
+ * cenário) e dos sócios. O pró-labore é dividido igualmente entre os administradores do QSA (mínimo de
+ * um salário mínimo cada) e o lucro remanescente é distribuído igualmente entre todos os sócios,
+ * já que a BrasilAPI não informa a participação no capital.
+ *
+ * @param simular Simulação da empresa com um dado pró-labore mensal total
+ * @param lucroAntesProLabore Receita - despesas - salários (com FGTS), mensal
+ * @param massaSalarialFatorR Salários com FGTS, mensal (parcela do Fator R que não depende do pró-labore)
+ */
+export function optimizeProLabore(
+    simular: (proLaboreMensal: number) => TaxResults,
+    lucroAntesProLabore: number,
+    rbt12: number,
+    massaSalarialFatorR: number,
+    qsa: BrasilAPI_Socio[],
+    proLaboreAtual: number,
+    passos: number = 40
+): OtimizacaoProLabore {
+    const socios = qsa.length > 0
+        ? qsa
+        : [{ nome_socio: 'Sócio', codigo_qualificacao_socio: 49, qualificacao_socio: 'Sócio-Administrador' } as BrasilAPI_Socio];
+    const administradores = socios.filter(isAdministrador);
+    const beneficiarios = administradores.length > 0 ? administradores : socios;
+
+    const minimo = beneficiarios.length * SALARIO_MINIMO;
+    const maximo = Math.max(minimo, lucroAntesProLabore);
+    const proLaboreFatorR = Math.max(0, 0.28 * rbt12 / 12 - massaSalarialFatorR);
+
+    const avaliar = (proLaboreTotal: number): CenarioProLabore => {
+        const res = simular(proLaboreTotal);
+        const empresa = cargaEmpresa(res);
+        const dividendosTotal = Math.max(0, lucroAntesProLabore - proLaboreTotal - empresa.total);
+        const porSocio = socios.map(s => tributosSocio(
+            beneficiarios.includes(s) ? proLaboreTotal / beneficiarios.length : 0,
+            dividendosTotal / socios.length
+        ));
+        const soma = (campo: 'inss' | 'irpf' | 'irrfDividendos' | 'irpfm') => porSocio.reduce((acc, t) => acc + t[campo], 0);
+
+        const cenario = {
+            proLaboreTotal,
+            dividendosTotal,
+            fatorR: res.simples.fatorR || 0,
+            anexo: res.simples.anexo,
+            regime: empresa.regime,
+            tributosEmpresa: empresa.total,
+            inssSocios: soma('inss'),
+            irpfSocios: soma('irpf'),
+            irrfDividendos: soma('irrfDividendos'),
+            irpfm: soma('irpfm'),
+            cargaTotal: 0
+        };
+        cenario.cargaTotal = cenario.tributosEmpresa + cenario.inssSocios + cenario.irpfSocios + cenario.irrfDividendos + cenario.irpfm;
+        return cenario;
+    };
+
+    // Grade uniforme + pontos de quebra: Fator R de 28%, teto do INSS e limite de isenção do IRPF por administrador
+    const candidatos = new Set<number>();
+    for (let i = 0; i <= passos; i++) candidatos.add(minimo + (maximo - minimo) * i / passos);
+    [proLaboreFatorR, beneficiarios.length * TETO_INSS, beneficiarios.length * LIMITE_ISENCAO_IRPF]
+        .filter(v => v >= minimo && v <= maximo)
+        .forEach(v => candidatos.add(Math.ceil(v)));
+
+    const cenarios = [...candidatos].sort((a, b) => a - b).map(avaliar);
+    const otimo = cenarios.reduce((a, b) => (b.cargaTotal < a.cargaTotal ? b : a));
+    const atual = avaliar(proLaboreAtual);
+
+    const recomendacoes: RecomendacaoSocio[] = socios.map(s => {
+        const proLabore = beneficiarios.includes(s) ? otimo.proLaboreTotal / beneficiarios.length : 0;
+        const dividendos = otimo.dividendosTotal / socios.length;
+        const t = tributosSocio(proLabore, dividendos);
+        return {
+            nome: s.nome_socio,
+            qualificacao: s.qualificacao_socio,
+            administrador: beneficiarios.includes(s),
+            proLabore,
+            dividendos,
+            ...t,
+            liquido: proLabore + dividendos - t.inss - t.irpf - t.irrfDividendos - t.irpfm
+        };
+    });
+
+    return {
+        atual,
+        otimo,
+        economiaMensal: Math.max(0, atual.cargaTotal - otimo.cargaTotal),
+        proLaboreFatorR,
+        cenarios,
+        socios: recomendacoes
+    };
+}
+
+export type AjusteFatorR = 'proLabore' | 'folha';
+
+export interface PlanoFatorRMes {
+    ano: number;
+    mes: number;
+    receita: number;
+    salarios: number;
+    proLaboreAtual: number;
+    proLaborePlanejado: number;
+    salariosPlanejados: number;
+    ajusteMes: number; // Acréscimo (ou redução) da folha no mês, sem FGTS
+    fatorRSemPlano: number; // %
+    fatorRComPlano: number; // %
+    anexoSemPlano: string;
+    anexoComPlano: string;
+    dasAnexoV: number;
+    dasComPlano: number;
+    economiaDas: number; // DAS no Anexo V - DAS com o plano
+    inssAdicional: number; // INSS 11% do sócio sobre o pró-labore acrescido
+}
+
+export interface PlanoFatorR {
+    meses: PlanoFatorRMes[];
+    economiaDas: number;
+    ajusteTotal: number;
+    inssAdicional: number;
+    economiaLiquida: number;
+    mesesForaDoAnexoIII: number; // Competências que o plano não consegue mais corrigir (folha já apurada)
+}
+
+/**
+ * Projeta o Fator R móvel nos próximos meses a partir do histórico e da receita prevista e propõe,
+ * mês a mês, a menor folha (pró-labore ou salários) que mantém a competência seguinte no Anexo III.
+ * A folha de uma competência só afeta as 12 seguintes, então a primeira competência projetada
+ * depende apenas do histórico.
+ *
+ * @param receitaPrevista Receita de cada mês projetado (o tamanho define o horizonte)
+ * @param proLaboreMinimo Piso do pró-labore planejado no ajuste via pró-labore
+ */
+export function planFatorR(
+    historico: CompetenciaFolha[],
+    receitaPrevista: number[],
+    activity: AppActivity,
+    ajuste: AjusteFatorR = 'proLabore',
+    proLaboreMinimo: number = SALARIO_MINIMO,
+    ruleSets: TaxRuleSet[] = DEFAULT_RULE_SETS
+): PlanoFatorR {
+    const ordenado = [...historico].sort((a, b) => (a.ano * 12 + a.mes) - (b.ano * 12 + b.mes));
+    const ultimo = ordenado[ordenado.length - 1];
+    const media = (campo: 'salarios' | 'proLabore') => {
+        const recentes = ordenado.slice(-3);
+        return recentes.length > 0 ? recentes.reduce((acc, c) => acc + c[campo], 0) / recentes.length : 0;
+    };
+    const salariosBase = media('salarios');
+    const proLaboreBase = media('proLabore');
+    const inicio = ultimo ? ultimo.ano * 12 + ultimo.mes : new Date().getFullYear() * 12 + new Date().getMonth();
+
+    const projetadas: CompetenciaFolha[] = receitaPrevista.map((receita, i) => {
+        const indice = inicio + i; // ano * 12 + (mes - 1) do mês projetado
+        return { ano: Math.floor(indice / 12), mes: (indice % 12) + 1, receita, salarios: salariosBase, proLabore: proLaboreBase };
+    });
+
+    // Folha mínima do mês m para o Fator R da competência m + 1 (janela dos 12 meses anteriores) atingir 28%
+    const planejadas: CompetenciaFolha[] = [];
+    projetadas.forEach(c => {
+        const janela = [...ordenado, ...planejadas, c].slice(-12);
+        const receitaJanela = janela.reduce((acc, o) => acc + o.receita, 0);
+        const folhaOutros = janela.slice(0, -1).reduce((acc, o) => acc + o.salarios * 1.08 + o.proLabore, 0);
+        const folhaNecessaria = Math.max(0, 0.28 * receitaJanela - folhaOutros);
+
+        if (ajuste === 'proLabore') {
+            const proLabore = Math.max(proLaboreMinimo, folhaNecessaria - c.salarios * 1.08);
+            planejadas.push({ ...c, proLabore });
+        } else {
+            const salarios = Math.max(c.salarios, (folhaNecessaria - c.proLabore) / 1.08);
+            planejadas.push({ ...c, salarios });
+        }
+    });
+
+    const chave = (c: { ano: number; mes: number }) => c.ano * 12 + c.mes;
+    const semPlano = buildCompetenceLedger([...ordenado, ...projetadas], activity, ruleSets);
+    const comPlano = buildCompetenceLedger([...ordenado, ...planejadas], activity, ruleSets);
+
+    const meses: PlanoFatorRMes[] = projetadas.map((c, i) => {
+        const sem = semPlano.find(l => chave(l) === chave(c))!;
+        const com = comPlano.find(l => chave(l) === chave(c))!;
+        const plano = planejadas[i];
+        const regras = resolveRuleSet(c, ruleSets);
+        const { faixa, aliquotaEfetiva } = calculateSimplesAliquota('V', com.rbt12, regras);
+        const dasAnexoV = calculateDasRepartition('V', faixa, aliquotaEfetiva, c.receita).total;
+        return {
+            ano: c.ano,
+            mes: c.mes,
+            receita: c.receita,
+            salarios: c.salarios,
+            proLaboreAtual: c.proLabore,
+            proLaborePlanejado: plano.proLabore,
+            salariosPlanejados: plano.salarios,
+            ajusteMes: (plano.proLabore - c.proLabore) + (plano.salarios - c.salarios),
+            fatorRSemPlano: sem.fatorR,
+            fatorRComPlano: com.fatorR,
+            anexoSemPlano: sem.anexo,
+            anexoComPlano: com.anexo,
+            dasAnexoV,
+            dasComPlano: com.das,
+            economiaDas: dasAnexoV - com.das,
+            inssAdicional: calculateInssSocio(plano.proLabore) - calculateInssSocio(c.proLabore)
+        };
+    });
+
+    const soma = (campo: 'economiaDas' | 'ajusteMes' | 'inssAdicional') => meses.reduce((acc, m) => acc + m[campo], 0);
+    return {
+        meses,
+        economiaDas: soma('economiaDas'),
+        ajusteTotal: soma('ajusteMes'),
+        inssAdicional: soma('inssAdicional'),
+        economiaLiquida: soma('economiaDas') - soma('inssAdicional'),
+        mesesForaDoAnexoIII: meses.filter(m => m.anexoComPlano === 'V').length
+    };
+}
+
+const formatCsv = (v: number) => v.toFixed(2).replace('.', ',');
+
+/**
+ * Plano em CSV (separador `;` e vírgula decimal, padrão do Excel em pt-BR).
+ */
+export function exportPlanoFatorRCsv(plano: PlanoFatorR): string {
+    const cabecalho = [
+        'Competência', 'Receita', 'Salários', 'Pró-labore atual', 'Pró-labore planejado', 'Salários planejados',
+        'Fator R sem plano (%)', 'Fator R com plano (%)', 'Anexo sem plano', 'Anexo com plano',
+        'DAS Anexo V', 'DAS com plano', 'Economia DAS', 'INSS adicional'
+    ];
+    const linhas = plano.meses.map(m => [
+        `${String(m.mes).padStart(2, '0')}/${m.ano}`,
+        formatCsv(m.receita), formatCsv(m.salarios), formatCsv(m.proLaboreAtual), formatCsv(m.proLaborePlanejado),
+        formatCsv(m.salariosPlanejados), formatCsv(m.fatorRSemPlano), formatCsv(m.fatorRComPlano),
+        m.anexoSemPlano, m.anexoComPlano, formatCsv(m.dasAnexoV), formatCsv(m.dasComPlano),
+        formatCsv(m.economiaDas), formatCsv(m.inssAdicional)
+    ]);
+    return [cabecalho, ...linhas].map(l => l.join(';')).join('\n');
+}
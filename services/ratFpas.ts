@@ -0,0 +1,175 @@
+/**
+ * TanTax RAT/FPAS - RAT ajustado pelo FAP, contribuições a terceiros por código FPAS e setores da CPRB
+ */
+
+// RAT (Decreto 3.048/99, Anexo V): 1% leve, 2% médio, 3% grave
+export type GrauRat = 0.01 | 0.02 | 0.03;
+
+export interface EnquadramentoRat {
+    rat: GrauRat;
+    fundamento: string;
+    estimativa: boolean; // Grau da divisão, não o da subclasse no Anexo V: confirmar antes de usar
+}
+
+// Subclasses (7 dígitos) com a alíquota do Anexo V (redação do Decreto 6.957/09) já conferida;
+// as demais caem no grau da divisão, marcado como estimativa
+const RAT_SUBCLASSE: Record<string, GrauRat> = {
+    // Construção
+    '4120400': 0.03, '4211101': 0.03, '4321500': 0.03,
+    // Transporte rodoviário de carga
+    '4930202': 0.03,
+    // Vigilância e limpeza
+    '8011101': 0.03, '8121400': 0.03,
+    // Atendimento hospitalar
+    '8610101': 0.02,
+    // Advocacia, contabilidade e consultoria em gestão
+    '6911701': 0.01, '6920601': 0.01, '7020400': 0.01
+};
+
+// Divisões (2 dígitos) com o grau predominante do Anexo V; a alíquota oficial é por subclasse,
+// então o grau da divisão é só uma estimativa
+const RAT_DIVISAO: Record<string, GrauRat> = {
+    '01': 0.03, '02': 0.03, '03': 0.03, '05': 0.03, '06': 0.03, '07': 0.03, '08': 0.03, '09': 0.03,
+    '10': 0.03, '11': 0.03, '12': 0.02, '13': 0.03, '14': 0.02, '15': 0.03, '16': 0.03, '17': 0.03,
+    '18': 0.02, '19': 0.03, '20': 0.03, '21': 0.02, '22': 0.03, '23': 0.03, '24': 0.03, '25': 0.03,
+    '26': 0.02, '27': 0.03, '28': 0.03, '29': 0.03, '30': 0.03, '31': 0.03, '32': 0.02, '33': 0.03,
+    '35': 0.03, '36': 0.03, '37': 0.03, '38': 0.03, '39': 0.03,
+    '41': 0.03, '42': 0.03, '43': 0.03,
+    '45': 0.02, '46': 0.02, '47': 0.02,
+    '49': 0.03, '50': 0.03, '51': 0.02, '52': 0.03, '53': 0.02,
+    '55': 0.02, '56': 0.02,
+    '58': 0.01, '59': 0.01, '60': 0.01, '61': 0.02, '62': 0.01, '63': 0.01,
+    '64': 0.01, '65': 0.01, '66': 0.01, '68': 0.01,
+    '69': 0.01, '70': 0.01, '71': 0.01, '72': 0.01, '73': 0.01, '74': 0.01, '75': 0.02,
+    '77': 0.02, '78': 0.02, '79': 0.01, '80': 0.03, '81': 0.03, '82': 0.02,
+    '84': 0.02, '85': 0.02, '86': 0.02, '87': 0.02, '88': 0.02,
+    '90': 0.01, '91': 0.01, '92': 0.01, '93': 0.02, '94': 0.01, '95': 0.02, '96': 0.02, '97': 0.02
+};
+
+export const FAP_MINIMO = 0.5;
+export const FAP_MAXIMO = 2.0;
+
+/**
+ * RAT da subclasse pelo Anexo V do Decreto 3.048/99; sem a subclasse na tabela, estimativa pelo grau
+ * predominante da divisão, a confirmar.
+ */
+export const getRatByCnae = (cnaeCode: string): EnquadramentoRat => {
+    const code = cnaeCode.replace(/\D/g, '').padStart(7, '0');
+    if (RAT_SUBCLASSE[code]) {
+        return { rat: RAT_SUBCLASSE[code], estimativa: false, fundamento: `Subclasse ${code} no Anexo V do Decreto 3.048/99` };
+    }
+    const rat = RAT_DIVISAO[code.substring(0, 2)];
+    return rat
+        ? { rat, estimativa: true, fundamento: `Estimativa pelo grau predominante da divisão ${code.substring(0, 2)}; confirme a subclasse ${code} no Anexo V do Decreto 3.048/99` }
+        : { rat: 0.02, estimativa: true, fundamento: `Estimativa de grau médio (divisão não mapeada); confirme a subclasse ${code} no Anexo V do Decreto 3.048/99` };
+};
+
+/**
+ * RAT ajustado = RAT x FAP, com o FAP limitado a 0,5-2,0 (Lei 10.666/03, art. 10).
+ */
+export function calculateRatAjustado(rat: number, fap: number): number {
+    return rat * Math.min(FAP_MAXIMO, Math.max(FAP_MINIMO, fap));
+}
+
+export type EntidadeTerceiros = 'salarioEducacao' | 'incra' | 'senai' | 'sesi' | 'senac' | 'sesc' | 'sest' | 'senat' | 'sebrae';
+
+export const ENTIDADES_TERCEIROS: Record<EntidadeTerceiros, string> = {
+    salarioEducacao: 'Salário-Educação',
+    incra: 'INCRA',
+    senai: 'SENAI',
+    sesi: 'SESI',
+    senac: 'SENAC',
+    sesc: 'SESC',
+    sest: 'SEST',
+    senat: 'SENAT',
+    sebrae: 'SEBRAE'
+};
+
+export interface CodigoFpas {
+    codigo: string;
+    descricao: string;
+    terceiros: Partial<Record<EntidadeTerceiros, number>>;
+}
+
+// Alíquotas de terceiros por FPAS (IN RFB 2.110/2022, Anexo I)
+export const FPAS_TABLE: Record<string, CodigoFpas> = {
+    '507': {
+        codigo: '507',
+        descricao: 'Indústria e construção civil',
+        terceiros: { salarioEducacao: 0.025, incra: 0.002, senai: 0.01, sesi: 0.015, sebrae: 0.006 }
+    },
+    '515': {
+        codigo: '515',
+        descricao: 'Comércio e serviços',
+        terceiros: { salarioEducacao: 0.025, incra: 0.002, senac: 0.01, sesc: 0.015, sebrae: 0.006 }
+    },
+    '612': {
+        codigo: '612',
+        descricao: 'Transporte rodoviário',
+        terceiros: { salarioEducacao: 0.025, incra: 0.002, sest: 0.015, senat: 0.01, sebrae: 0.006 }
+    },
+    '736': {
+        codigo: '736',
+        descricao: 'Instituições financeiras',
+        terceiros: { salarioEducacao: 0.025, incra: 0.002 }
+    },
+    '639': {
+        codigo: '639',
+        descricao: 'Entidade beneficente com imunidade (CEBAS)',
+        terceiros: {}
+    }
+};
+
+export const getFpasByCnae = (cnaeCode: string): CodigoFpas => {
+    const divisao = Number(cnaeCode.replace(/\D/g, '').padStart(7, '0').substring(0, 2));
+    if ((divisao >= 5 && divisao <= 33) || (divisao >= 41 && divisao <= 43)) return FPAS_TABLE['507'];
+    if (divisao === 49) return FPAS_TABLE['612'];
+    if (divisao >= 64 && divisao <= 66) return FPAS_TABLE['736'];
+    return FPAS_TABLE['515'];
+};
+
+export function calculateTerceiros(fpas: CodigoFpas): { total: number; detalhamento: { entidade: string; aliquota: number }[] } {
+    const detalhamento = (Object.keys(fpas.terceiros) as EntidadeTerceiros[]).map(e => ({
+        entidade: ENTIDADES_TERCEIROS[e],
+        aliquota: fpas.terceiros[e] || 0
+    }));
+    return { total: detalhamento.reduce((acc, d) => acc + d.aliquota, 0), detalhamento };
+}
+
+// CPRB (Lei 12.546/2011, arts. 7º e 8º): alíquota setorial sobre a receita bruta, em substituição ao INSS patronal
+export interface SetorCprb {
+    codigo: string;
+    descricao: string;
+    aliquota: number;
+}
+
+export const SETORES_CPRB: SetorCprb[] = [
+    { codigo: 'ti', descricao: 'Tecnologia da informação e comunicação', aliquota: 0.045 },
+    { codigo: 'call_center', descricao: 'Call center', aliquota: 0.03 },
+    { codigo: 'construcao', descricao: 'Construção civil e obras de infraestrutura', aliquota: 0.045 },
+    { codigo: 'transporte_coletivo', descricao: 'Transporte rodoviário e metroferroviário de passageiros', aliquota: 0.02 },
+    { codigo: 'transporte_cargas', descricao: 'Transporte rodoviário de cargas', aliquota: 0.015 },
+    { codigo: 'comunicacao', descricao: 'Empresas jornalísticas, rádio e TV', aliquota: 0.015 },
+    { codigo: 'confeccao', descricao: 'Confecção, couro e calçados', aliquota: 0.015 },
+    { codigo: 'proteina_animal', descricao: 'Proteína animal', aliquota: 0.01 }
+];
+
+// Classes (4 dígitos) e divisões (2 dígitos) dos setores beneficiados
+const CPRB_CLASSE: Record<string, string> = {
+    '8220': 'call_center',
+    '4921': 'transporte_coletivo', '4922': 'transporte_coletivo', '4912': 'transporte_coletivo',
+    '4930': 'transporte_cargas',
+    '1011': 'proteina_animal', '1012': 'proteina_animal', '1013': 'proteina_animal'
+};
+const CPRB_DIVISAO: Record<string, string> = {
+    '62': 'ti', '63': 'ti',
+    '41': 'construcao', '42': 'construcao', '43': 'construcao',
+    '60': 'comunicacao',
+    '14': 'confeccao', '15': 'confeccao'
+};
+
+export const getSetorCprbByCnae = (cnaeCode: string): SetorCprb | null => {
+    const code = cnaeCode.replace(/\D/g, '').padStart(7, '0');
+    const setor = CPRB_CLASSE[code.substring(0, 4)] || CPRB_DIVISAO[code.substring(0, 2)];
+    return SETORES_CPRB.find(s => s.codigo === setor) || null;
+};
@@ -0,0 +1,287 @@
+/**
+ * TanTax Reforma - Transição do consumo (LC 214/2025): projeção 2026-2033, Simples híbrido e split payment
+ */
+
+import { TaxResults, CompetenciaReceita } from './taxEngine';
+import { TaxRuleSet, DEFAULT_RULE_SETS, resolveRuleSet } from './taxRules';
+
+export interface TributosConsumo {
+    pis: number;
+    cofins: number;
+    cbs: number;
+    ibs: number;
+    creditosCbsIbs: number; // Já abatidos de `cbs` e `ibs`
+    icms: number;
+    iss: number;
+    total: number;
+}
+
+export interface ProjecaoReformaAno {
+    ano: number;
+    versaoRegras: string;
+    fase: string;
+    aliquotaCbs: number; // %
+    aliquotaIbs: number; // %
+    fatorIcmsIss: number; // %
+    // Carga anual (tributos + encargos patronais fora da guia) por regime
+    simples: number;
+    presumido: number;
+    real: number;
+    elegivelSimples: boolean;
+    elegivelPresumido: boolean;
+}
+
+/**
+ * Tributos sobre o consumo no ano da versão de regras, a partir dos valores do sistema atual.
+ * Até 2026 mantém PIS/COFINS (o teste de 1% é compensável com eles); a partir de 2027 a CBS
+ * os substitui e, de 2029 a 2033, o ICMS/ISS é reduzido pelo fator da transição e dá lugar ao IBS.
+ * CBS e IBS são não-cumulativos em todos os regimes: créditos sobre os insumos tributados.
+ * `reducao` (LC 214, arts. 127 a 157) reduz só o débito; os insumos geram crédito à alíquota cheia.
+ */
+export function calculateTributosConsumo(
+    regras: TaxRuleSet,
+    receita: number,
+    insumosCreditaveis: number,
+    atuais: { pis: number; cofins: number; icms: number; iss: number },
+    reducao: number = 0
+): TributosConsumo {
+    const { cbs: aliquotaCbs, ibs: aliquotaIbs, pisCofinsExtinto, fatorIcmsIss } = regras.reforma;
+    const icms = atuais.icms * fatorIcmsIss;
+    const iss = atuais.iss * fatorIcmsIss;
+
+    if (!pisCofinsExtinto) {
+        return { pis: atuais.pis, cofins: atuais.cofins, cbs: 0, ibs: 0, creditosCbsIbs: 0, icms, iss, total: atuais.pis + atuais.cofins + icms + iss };
+    }
+
+    const insumos = Math.min(insumosCreditaveis, receita);
+    const cbs = Math.max(0, receita * aliquotaCbs * (1 - reducao) - insumos * aliquotaCbs);
+    const ibs = Math.max(0, receita * aliquotaIbs * (1 - reducao) - insumos * aliquotaIbs);
+
+    return {
+        pis: 0,
+        cofins: 0,
+        cbs,
+        ibs,
+        creditosCbsIbs: insumos * (aliquotaCbs + aliquotaIbs),
+        icms,
+        iss,
+        total: cbs + ibs + icms + iss
+    };
+}
+
+/**
+ * Projeção ano a ano (2026-2033) da carga de cada regime, simulando o cliente com a versão
+ * de regras vigente em janeiro de cada ano. `simular` recebe a versão e devolve os resultados
+ * consolidados (todas as atividades).
+ */
+export function projectReformaTransition(
+    simular: (regras: TaxRuleSet) => TaxResults,
+    ruleSets: TaxRuleSet[] = DEFAULT_RULE_SETS,
+    anoInicial: number = 2026,
+    anoFinal: number = 2033
+): ProjecaoReformaAno[] {
+    const projecao: ProjecaoReformaAno[] = [];
+
+    for (let ano = anoInicial; ano <= anoFinal; ano++) {
+        const regras = resolveRuleSet({ ano, mes: 1 }, ruleSets);
+        const res = simular(regras);
+
+        projecao.push({
+            ano,
+            versaoRegras: regras.versao,
+            fase: regras.reforma.fase,
+            aliquotaCbs: regras.reforma.cbs * 100,
+            aliquotaIbs: regras.reforma.ibs * 100,
+            fatorIcmsIss: regras.reforma.fatorIcmsIss * 100,
+            simples: res.comparativo.simples * 12,
+            presumido: res.comparativo.presumido * 12,
+            real: res.comparativo.real * 12,
+            elegivelSimples: res.simples.elegivel,
+            elegivelPresumido: res.lucroPresumido.elegivel
+        });
+    }
+
+    return projecao;
+}
+
+export interface SimulacaoSimplesHibrido {
+    versaoRegras: string;
+    simplesPuro: number; // Carga mensal no Simples com CBS/IBS dentro do DAS
+    dasHibrido: number; // DAS sem as parcelas de PIS/COFINS (CBS) e de ICMS/ISS substituídas pelo IBS
+    cbsIbsRegular: number; // CBS/IBS pelo regime regular, líquidos dos créditos de compras
+    simplesHibrido: number;
+    custoAdicional: number;
+    creditoClientesPuro: number; // Crédito transferido aos clientes B2B: só o CBS/IBS embutido no DAS
+    creditoClientesHibrido: number; // Crédito integral destacado na nota
+    ganhoCreditoClientes: number;
+    reajustePreco: number; // % sobre o faturamento para repassar o custo adicional
+    vantajoso: boolean;
+}
+
+/**
+ * Simples Nacional "híbrido" (LC 214/2025, art. 41): a partir de 2027 a empresa pode recolher
+ * CBS/IBS pelo regime regular, fora do DAS, para que seus clientes tomem o crédito integral.
+ * `base` deve ser a simulação consolidada com as regras do ano (o mix de atividades já está na repartição).
+ * `participacaoB2B` (0 a 1) pondera o crédito aproveitável pelos clientes; `reducaoCbsIbs` é a
+ * redução média ponderada das atividades.
+ */
+export function simulateSimplesHibrido(
+    base: TaxResults,
+    receita: number,
+    insumosCreditaveis: number,
+    regras: TaxRuleSet,
+    participacaoB2B: number,
+    reducaoCbsIbs: number = 0
+): SimulacaoSimplesHibrido {
+    const { cbs, ibs, fatorIcmsIss } = regras.reforma;
+    const { reparticao } = base.simples;
+
+    // Parcelas do DAS que correspondem à CBS (antigo PIS/COFINS) e ao IBS (ICMS/ISS reduzidos)
+    const parcelaCbs = reparticao.pis + reparticao.cofins;
+    const parcelaIbs = (reparticao.icms + reparticao.iss) * (1 - fatorIcmsIss);
+    const dasHibrido = base.simples.dasTotal - parcelaCbs - parcelaIbs;
+
+    const insumos = Math.min(insumosCreditaveis, receita);
+    const cbsIbsRegular = Math.max(0, (receita * (1 - reducaoCbsIbs) - insumos) * (cbs + ibs));
+
+    const simplesPuro = base.comparativo.simples;
+    // Acima do sublimite o IBS já era recolhido fora do DAS e passa a integrar o regime regular
+    const simplesHibrido = simplesPuro - parcelaCbs - parcelaIbs - base.simples.ibsForaDoDas + cbsIbsRegular;
+    const custoAdicional = simplesHibrido - simplesPuro;
+
+    const creditoClientesPuro = (parcelaCbs + parcelaIbs + base.simples.ibsForaDoDas) * participacaoB2B;
+    const creditoClientesHibrido = receita * (cbs + ibs) * (1 - reducaoCbsIbs) * participacaoB2B;
+    const ganhoCreditoClientes = creditoClientesHibrido - creditoClientesPuro;
+
+    return {
+        versaoRegras: regras.versao,
+        simplesPuro,
+        dasHibrido,
+        cbsIbsRegular,
+        simplesHibrido,
+        custoAdicional,
+        creditoClientesPuro,
+        creditoClientesHibrido,
+        ganhoCreditoClientes,
+        reajustePreco: receita > 0 ? (Math.max(0, custoAdicional) / receita) * 100 : 0,
+        vantajoso: participacaoB2B > 0 && ganhoCreditoClientes > custoAdicional
+    };
+}
+
+export interface MixLiquidacao {
+    pix: number; // Fração liquidada à vista (D+0)
+    cartao: number; // Fração liquidada pela adquirente no prazo do cartão
+    prazo: number; // Fração a prazo (boleto/duplicata) no prazo médio de recebimento
+}
+
+export interface SplitPaymentParams {
+    mix: MixLiquidacao;
+    prazoMedioRecebimento: number; // dias
+    prazoCartao: number; // dias
+    reducaoCbsIbs?: number; // Redução média ponderada das atividades
+}
+
+export interface FluxoSplitPaymentMes {
+    ano: number;
+    mes: number;
+    faturamento: number;
+    recebimentos: number;
+    tributoDevido: number; // CBS/IBS da competência, já líquido dos créditos
+    creditos: number;
+    recolhimentoAtual: number; // Guia paga no dia 20 do mês seguinte
+    retencaoSplit: number; // Retido na liquidação financeira
+    saldoAtual: number; // Caixa acumulado no modelo atual (fim do mês)
+    saldoSplit: number; // Caixa acumulado com split payment (fim do mês)
+    gapCapitalGiro: number; // Média diária de saldoAtual - saldoSplit no mês
+}
+
+const DIAS_MES = 30; // Mês comercial
+
+/**
+ * Fluxo de caixa do split payment (LC 214/2025, arts. 31 a 35): a CBS/IBS é retida na
+ * liquidação de cada recebimento, abatidos os créditos disponíveis (modelo "inteligente").
+ * Compara com o modelo atual, em que o tributo da competência é recolhido no dia 20 do mês
+ * seguinte. A simulação é diária (vendas distribuídas no mês); `gapCapitalGiro` é a média
+ * diária, no mês, do caixa que deixa de ficar com a empresa (negativo quando o split alivia o caixa,
+ * como em vendas a prazo cujo tributo hoje é pago antes do recebimento).
+ */
+export function simulateSplitPayment(
+    serie: CompetenciaReceita[],
+    insumosCreditaveisMensal: number,
+    regras: TaxRuleSet,
+    params: SplitPaymentParams
+): FluxoSplitPaymentMes[] {
+    const aliquota = regras.reforma.cbs + regras.reforma.ibs;
+    const aliquotaDebito = aliquota * (1 - (params.reducaoCbsIbs ?? 0));
+    const ordenada = [...serie].sort((a, b) => (a.ano * 12 + a.mes) - (b.ano * 12 + b.mes));
+    const totalDias = ordenada.length * DIAS_MES;
+    const { mix } = params;
+    const canais = [
+        { fracao: mix.pix, dias: 0 },
+        { fracao: mix.cartao, dias: params.prazoCartao },
+        { fracao: mix.prazo, dias: params.prazoMedioRecebimento }
+    ];
+
+    const recebimentosDia = new Array(totalDias).fill(0);
+    ordenada.forEach((c, idx) => {
+        for (let d = 0; d < DIAS_MES; d++) {
+            canais.forEach(canal => {
+                const liquidacao = idx * DIAS_MES + d + Math.round(canal.dias);
+                if (liquidacao < totalDias) recebimentosDia[liquidacao] += (c.receita / DIAS_MES) * canal.fracao;
+            });
+        }
+    });
+
+    // Modelo atual: apuração mensal líquida de créditos, com saldo credor transportado
+    let creditoAtual = 0;
+    const apuracao = ordenada.map(c => {
+        const creditos = Math.min(insumosCreditaveisMensal, c.receita) * aliquota;
+        const saldo = c.receita * aliquotaDebito - creditos - creditoAtual;
+        creditoAtual = Math.max(0, -saldo);
+        return { creditos, tributoDevido: Math.max(0, saldo) };
+    });
+
+    let saldoAtual = 0;
+    let saldoSplit = 0;
+    let creditoSplit = 0; // Créditos ainda não abatidos nas retenções
+
+    return ordenada.map((c, idx) => {
+        let recebimentos = 0;
+        let recolhimentoAtual = 0;
+        let retencaoSplit = 0;
+        let somaGap = 0;
+
+        creditoSplit += apuracao[idx].creditos;
+
+        for (let d = 0; d < DIAS_MES; d++) {
+            const dia = idx * DIAS_MES + d;
+            const recebido = recebimentosDia[dia];
+
+            const guia = d === 19 && idx > 0 ? apuracao[idx - 1].tributoDevido : 0;
+            const bruto = recebido * aliquotaDebito;
+            const retido = Math.max(0, bruto - creditoSplit);
+            creditoSplit = Math.max(0, creditoSplit - bruto);
+
+            recebimentos += recebido;
+            recolhimentoAtual += guia;
+            retencaoSplit += retido;
+            saldoAtual += recebido - guia;
+            saldoSplit += recebido - retido;
+            somaGap += saldoAtual - saldoSplit;
+        }
+
+        return {
+            ano: c.ano,
+            mes: c.mes,
+            faturamento: c.receita,
+            recebimentos,
+            tributoDevido: apuracao[idx].tributoDevido,
+            creditos: apuracao[idx].creditos,
+            recolhimentoAtual,
+            retencaoSplit,
+            saldoAtual,
+            saldoSplit,
+            gapCapitalGiro: somaGap / DIAS_MES
+        };
+    });
+}
@@ -0,0 +1,56 @@
+import { supabase } from './supabaseClient';
+import { TaxRuleSet, TaxRuleVersion, resolveRuleSet } from './taxRules';
+
+// Tabela `tax_rule_versions`: versao (text, único), vigencia_inicio (date), regras (jsonb),
+// publicado_em (timestamptz), publicado_por (uuid). Escrita restrita a administradores pela RLS da migração.
+const RULES_TABLE = 'tax_rule_versions';
+
+// Linha da tabela (supabase/migrations/20250601000000_tax_rule_versions.sql)
+interface TaxRuleVersionRow {
+    versao: string;
+    vigencia_inicio: string; // AAAA-MM-DD
+    regras: Partial<TaxRuleSet>;
+    publicado_em: string;
+    publicado_por: string;
+}
+
+export async function fetchPublishedRuleSets(): Promise<TaxRuleVersion[]> {
+    const { data, error } = await supabase
+        .from(RULES_TABLE)
+        .select('versao, vigencia_inicio, regras, publicado_em, publicado_por')
+        .order('vigencia_inicio', { ascending: true })
+        .returns<TaxRuleVersionRow[]>();
+
+    if (error) {
+        throw new Error(`Erro ao carregar versões de regras: ${error.message}`);
+    }
+
+    // Campos criados depois da publicação herdam a versão padrão vigente na mesma data
+    return (data || []).map((row): TaxRuleVersion => ({
+        regras: {
+            ...resolveRuleSet(new Date(`${row.vigencia_inicio}T00:00:00`)),
+            ...row.regras,
+            versao: row.versao,
+            vigenciaInicio: row.vigencia_inicio
+        },
+        status: 'publicado',
+        publicadoEm: row.publicado_em,
+        publicadoPor: row.publicado_por
+    }));
+}
+
+export async function publishRuleSet(regras: TaxRuleSet, userId: string): Promise<void> {
+    const { error } = await supabase
+        .from(RULES_TABLE)
+        .upsert({
+            versao: regras.versao,
+            vigencia_inicio: regras.vigenciaInicio,
+            regras,
+            publicado_em: new Date().toISOString(),
+            publicado_por: userId
+        }, { onConflict: 'versao' });
+
+    if (error) {
+        throw new Error(`Erro ao publicar a versão ${regras.versao}: ${error.message}`);
+    }
+}
@@ -0,0 +1,30 @@
+import { supabase } from './supabaseClient';
+import { TaxResults } from './taxEngine';
+
+// Tabela `simulations`: user_id, empresa, cnpj, competencia, versao_regras, resultado (jsonb), criado_em
+const SIMULATIONS_TABLE = 'simulations';
+
+export interface SavedSimulation {
+    empresa: string;
+    cnpj: string;
+    competencia: string; // AAAA-MM
+    resultado: TaxResults;
+}
+
+export async function saveSimulation(simulation: SavedSimulation, userId: string): Promise<void> {
+    const { error } = await supabase
+        .from(SIMULATIONS_TABLE)
+        .insert({
+            user_id: userId,
+            empresa: simulation.empresa,
+            cnpj: simulation.cnpj,
+            competencia: simulation.competencia,
+            versao_regras: simulation.resultado.versaoRegras,
+            resultado: simulation.resultado,
+            criado_em: new Date().toISOString()
+        });
+
+    if (error) {
+        throw new Error(`Erro ao salvar simulação: ${error.message}`);
+    }
+}
@@ -3,6 +3,10 @@
  * TanTax Engine - Logica Tributaria 2024-2033
  */
 
+import { AppActivity, TributoConsumo } from './cnaeMapper';
+import { TaxRuleSet, PresuncaoLP, DEFAULT_RULE_SETS, resolveRuleSet } from './taxRules';
+import { calculateTributosConsumo } from './reformaEngine';
+
 export interface TaxResults {
     simples: {
         elegivel: boolean;
@@ -11,6 +15,16 @@ export interface TaxResults {
         aliquotaNominal: number;
         parcelaDeduzir: number;
         dasTotal: number;
+        faixa: number; // 1 a 6
+        reparticao: ReparticaoDAS; // Valor mensal de cada tributo dentro do DAS
+        issLimitado: boolean; // ISS travado em 5% com excedente redistribuído
+        cppForaDoDas: number; // Anexo IV: CPP (ou CPRB + INSS reduzido) + RAT recolhidos em GPS, fora do DAS
+        sublimiteExcedido: boolean; // ICMS/ISS pelas regras normais: pelos limites do ano, ou RBT12 > R$ 3,6 mi sem eles
+        proximoSublimite: boolean; // Receita do ano (ou RBT12) acima de 90% do sublimite
+        icmsForaDoDas: number;
+        issForaDoDas: number;
+        ibsForaDoDas: number; // Acima do sublimite, o IBS substitui o ICMS/ISS reduzido (2027+)
+        economiaSegregacao: number; // DAS não devido sobre receitas com ST, monofásicas ou de exportação
         fatorR?: number;
         motivoVenda?: string;
     };
@@ -20,166 +34,509 @@ export interface TaxResults {
         csll: number;
         pis: number;
         cofins: number;
+        cbs: number;
+        ibs: number;
         issqn: number;
+        icms: number;
         total: number;
         aliquotaEfetiva: number;
         presuncaoirpj: number;
         isLC224Applied: boolean;
     };
+    lucroReal: {
+        elegivel: boolean;
+        lucroContabil: number;
+        compensacaoPrejuizo: number;
+        prejuizoGerado: number;
+        baseCalculo: number;
+        irpj: number;
+        csll: number;
+        pis: number;
+        cofins: number;
+        cbs: number;
+        ibs: number;
+        creditosPisCofins: number; // Créditos de PIS/COFINS ou, a partir de 2027, de CBS/IBS
+        issqn: number;
+        icms: number;
+        total: number;
+        aliquotaEfetiva: number;
+    };
     reforma2026: {
         cbs_ibs: number;
-        percentualReducao: number;
+        percentualReducao: number; // Redução do ICMS/ISS na transição
         fase: string;
     };
     folha: {
         inssPatronal: number;
+        cprb: number; // Contribuição sobre a receita bruta (setores desonerados, LP/LR)
+        economiaDesoneracao: number; // INSS de 20% sobre a folha - (INSS reduzido + CPRB)
         rat: number;
         terceiros: number;
         totalEncargos: number;
         percentualSobreFolha: number;
         isSimplesSubstituido: boolean;
     };
+    // Carga mensal comparável por regime: tributos + encargos patronais pagos fora da guia
+    comparativo: {
+        simples: number;
+        presumido: number;
+        real: number;
+    };
     sugestao: string;
+    versaoRegras: string; // Versão das tabelas (taxRules) usada no cálculo
+}
+
+export interface TaxEngineOptions {
+    monthlyExpenses?: number; // Custos e despesas dedutíveis (exceto folha), incluindo as compras abaixo
+    creditableInputs?: number; // Parcela das despesas que gera crédito de PIS/COFINS não-cumulativo
+    prejuizoFiscalAcumulado?: number; // Saldo de prejuízo fiscal / base negativa a compensar
+    icmsRate?: number; // Alíquota interna de ICMS da UF (fora do Simples / acima do sublimite)
+    regras?: TaxRuleSet; // Versão vigente na competência simulada; padrão: a vigente hoje
+    reducaoCbsIbs?: number; // Redução de CBS/IBS da atividade (LC 214): 0,3 / 0,6 / 1
+    cprbRate?: number; // Alíquota setorial da CPRB; sem valor, INSS patronal integral sobre a folha
+    segregacao?: SegregacaoReceita;
+    limites?: LimitesSimples; // Limites do ano-calendário (proporcionais no início de atividade) e excessos
+    fatorR?: number; // Fator R da empresa (0 a 1); por linha de atividade a folha proporcional não o representa
+    presuncao?: PresuncaoLP; // Presunção própria da subclasse CNAE (ex.: 1,6% combustíveis, 16% passageiros)
+    tributoConsumo?: TributoConsumo; // ISS, ICMS ou nenhum pela subclasse; padrão: pela atividade
+    issFixoMensal?: number; // ISS fixo da sociedade uniprofissional; substitui o ISS sobre a receita no LP e no LR
+    apuracaoTrimestralLP?: ApuracaoTrimestralLP[]; // IRPJ/CSLL do LP apurados por trimestre sobre a série mensal
 }
 
-// Tabelas simplificadas para cálculo de alíquota efetiva (Faixas Simples Nacional)
-const SIMPLES_TABLE = {
+// Parcelas (0 a 1) da receita com tratamento próprio; o restante é receita "normal"
+export interface SegregacaoReceita {
+    st?: number; // ICMS recolhido por substituição tributária
+    monofasico?: number; // PIS/COFINS concentrados no fabricante/importador
+    exportacao?: number; // Imune a PIS/COFINS, ICMS, ISS e IPI (e a CBS/IBS a partir de 2027)
+}
+
+export const LIMITE_SIMPLES = 4800000;
+export const SUBLIMITE_ICMS_ISS = 3600000;
+// Início de atividade: limites proporcionais aos meses de funcionamento no ano, fração de mês conta inteira
+// (LC 123, art. 3º, § 2º)
+export const LIMITE_MENSAL_INICIO = 400000;
+export const SUBLIMITE_MENSAL_INICIO = 300000;
+// Excesso de até 20% sobre o limite: efeitos só a partir de 1º de janeiro do ano seguinte (LC 123, art. 3º, § 9º-A, e art. 20, § 1º-A)
+export const TOLERANCIA_EXCESSO = 0.20;
+export const ALIQUOTA_CPP = 0.20; // Lei 8.212/91, art. 22, I
+
+/**
+ * Alíquota do INSS patronal sobre a folha fora do DAS (LP, LR e Anexo IV): 20% ou, nos setores
+ * da CPRB, a alíquota reduzida do ano da reoneração (Lei 14.973/2024).
+ */
+export function aliquotaInssPatronal(regras: TaxRuleSet, cprbRate: number = 0): number {
+    return cprbRate > 0 ? regras.desoneracao.aliquotaFolha : ALIQUOTA_CPP;
+}
+
+// Alíquota modal interna de ICMS por UF (2025)
+export const ALIQUOTA_ICMS_UF: Record<string, number> = {
+    AC: 0.19, AL: 0.19, AP: 0.18, AM: 0.20, BA: 0.205, CE: 0.20, DF: 0.20, ES: 0.17,
+    GO: 0.19, MA: 0.23, MT: 0.17, MS: 0.17, MG: 0.18, PA: 0.19, PB: 0.20, PR: 0.195,
+    PE: 0.205, PI: 0.225, RJ: 0.22, RN: 0.20, RS: 0.17, RO: 0.195, RR: 0.20, SC: 0.17,
+    SP: 0.18, SE: 0.19, TO: 0.20
+};
+
+export type TributoDAS = 'irpj' | 'csll' | 'cofins' | 'pis' | 'cpp' | 'icms' | 'ipi' | 'iss';
+export type ReparticaoDAS = Record<TributoDAS, number>;
+
+export type RegimeTributario = 'Simples Nacional' | 'Lucro Presumido' | 'Lucro Real';
+
+// Percentuais de repartição dos tributos no DAS por faixa (LC 123/2006, Anexos I a V)
+const REPARTICAO_DAS: Record<string, Partial<ReparticaoDAS>[]> = {
     ANEXO_I: [
-        { limite: 180000, aliquota: 0.04, deduzir: 0 },
-        { limite: 360000, aliquota: 0.073, deduzir: 5940 },
-        { limite: 720000, aliquota: 0.095, deduzir: 13860 },
-        { limite: 1800000, aliquota: 0.107, deduzir: 22500 },
-        { limite: 3600000, aliquota: 0.143, deduzir: 87300 },
-        { limite: 4800000, aliquota: 0.19, deduzir: 378000 },
+        { irpj: 0.055, csll: 0.035, cofins: 0.1274, pis: 0.0276, cpp: 0.415, icms: 0.34 },
+        { irpj: 0.055, csll: 0.035, cofins: 0.1274, pis: 0.0276, cpp: 0.415, icms: 0.34 },
+        { irpj: 0.055, csll: 0.035, cofins: 0.1274, pis: 0.0276, cpp: 0.42, icms: 0.335 },
+        { irpj: 0.055, csll: 0.035, cofins: 0.1274, pis: 0.0276, cpp: 0.42, icms: 0.335 },
+        { irpj: 0.055, csll: 0.035, cofins: 0.1274, pis: 0.0276, cpp: 0.42, icms: 0.335 },
+        { irpj: 0.135, csll: 0.10, cofins: 0.2827, pis: 0.0613, cpp: 0.421 },
+    ],
+    ANEXO_II: [
+        { irpj: 0.055, csll: 0.035, cofins: 0.1151, pis: 0.0249, cpp: 0.375, ipi: 0.075, icms: 0.32 },
+        { irpj: 0.055, csll: 0.035, cofins: 0.1151, pis: 0.0249, cpp: 0.375, ipi: 0.075, icms: 0.32 },
+        { irpj: 0.055, csll: 0.035, cofins: 0.1151, pis: 0.0249, cpp: 0.375, ipi: 0.075, icms: 0.32 },
+        { irpj: 0.055, csll: 0.035, cofins: 0.1151, pis: 0.0249, cpp: 0.375, ipi: 0.075, icms: 0.32 },
+        { irpj: 0.055, csll: 0.035, cofins: 0.1151, pis: 0.0249, cpp: 0.375, ipi: 0.075, icms: 0.32 },
+        { irpj: 0.085, csll: 0.075, cofins: 0.2096, pis: 0.0454, cpp: 0.235, ipi: 0.35 },
     ],
     ANEXO_III: [
-        { limite: 180000, aliquota: 0.06, deduzir: 0 },
-        { limite: 360000, aliquota: 0.112, deduzir: 9360 },
-        { limite: 720000, aliquota: 0.135, deduzir: 17640 },
-        { limite: 1800000, aliquota: 0.16, deduzir: 35640 },
-        { limite: 3600000, aliquota: 0.21, deduzir: 125640 },
-        { limite: 4800000, aliquota: 0.33, deduzir: 648000 },
+        { irpj: 0.04, csll: 0.035, cofins: 0.1282, pis: 0.0278, cpp: 0.434, iss: 0.335 },
+        { irpj: 0.04, csll: 0.035, cofins: 0.1405, pis: 0.0305, cpp: 0.434, iss: 0.32 },
+        { irpj: 0.04, csll: 0.035, cofins: 0.1364, pis: 0.0296, cpp: 0.434, iss: 0.325 },
+        { irpj: 0.04, csll: 0.035, cofins: 0.1364, pis: 0.0296, cpp: 0.434, iss: 0.325 },
+        { irpj: 0.04, csll: 0.035, cofins: 0.1282, pis: 0.0278, cpp: 0.434, iss: 0.335 },
+        { irpj: 0.35, csll: 0.15, cofins: 0.1603, pis: 0.0347, cpp: 0.305 },
+    ],
+    ANEXO_IV: [
+        { irpj: 0.188, csll: 0.152, cofins: 0.1767, pis: 0.0383, iss: 0.445 },
+        { irpj: 0.198, csll: 0.152, cofins: 0.2055, pis: 0.0445, iss: 0.40 },
+        { irpj: 0.208, csll: 0.152, cofins: 0.1973, pis: 0.0427, iss: 0.40 },
+        { irpj: 0.178, csll: 0.192, cofins: 0.189, pis: 0.041, iss: 0.40 },
+        { irpj: 0.188, csll: 0.192, cofins: 0.1808, pis: 0.0392, iss: 0.40 },
+        { irpj: 0.535, csll: 0.215, cofins: 0.2055, pis: 0.0445 },
     ],
     ANEXO_V: [
-        { limite: 180000, aliquota: 0.155, deduzir: 0 },
-        { limite: 360000, aliquota: 0.18, deduzir: 4500 },
-        { limite: 720000, aliquota: 0.195, deduzir: 9900 },
-        { limite: 1800000, aliquota: 0.205, deduzir: 17100 },
-        { limite: 3600000, aliquota: 0.23, deduzir: 62100 },
-        { limite: 4800000, aliquota: 0.305, deduzir: 540000 },
+        { irpj: 0.25, csll: 0.15, cofins: 0.141, pis: 0.0305, cpp: 0.2885, iss: 0.14 },
+        { irpj: 0.23, csll: 0.15, cofins: 0.141, pis: 0.0305, cpp: 0.2785, iss: 0.17 },
+        { irpj: 0.24, csll: 0.15, cofins: 0.1492, pis: 0.0323, cpp: 0.2385, iss: 0.19 },
+        { irpj: 0.21, csll: 0.15, cofins: 0.1574, pis: 0.0341, cpp: 0.2385, iss: 0.21 },
+        { irpj: 0.23, csll: 0.125, cofins: 0.141, pis: 0.0305, cpp: 0.2385, iss: 0.235 },
+        { irpj: 0.35, csll: 0.155, cofins: 0.1644, pis: 0.0356, cpp: 0.295 },
     ]
 };
 
+const TRIBUTOS_DAS: TributoDAS[] = ['irpj', 'csll', 'cofins', 'pis', 'cpp', 'icms', 'ipi', 'iss'];
+
+const emptyReparticao = (): ReparticaoDAS => ({ irpj: 0, csll: 0, cofins: 0, pis: 0, cpp: 0, icms: 0, ipi: 0, iss: 0 });
+
+/**
+ * Reparte a alíquota efetiva do DAS entre os tributos da faixa.
+ * O ISS fica limitado a 5% da receita e o excedente vai, proporcionalmente, aos tributos federais.
+ * Tributos em `exclusoes` não são devidos sobre a receita (ex.: ICMS em receita sujeita a ST).
+ */
+export function calculateDasRepartition(
+    anexo: string,
+    faixa: number, // 1 a 6
+    aliquotaEfetiva: number,
+    receita: number,
+    exclusoes: TributoDAS[] = []
+): { aliquotas: ReparticaoDAS; valores: ReparticaoDAS; total: number; issLimitado: boolean } {
+    const percentuais = REPARTICAO_DAS[`ANEXO_${anexo}`][faixa - 1];
+    const aliquotas = emptyReparticao();
+    TRIBUTOS_DAS.forEach(t => { aliquotas[t] = (percentuais[t] || 0) * aliquotaEfetiva; });
+
+    let issLimitado = false;
+    if (aliquotas.iss > 0.05) {
+        const excedente = aliquotas.iss - 0.05;
+        aliquotas.iss = 0.05;
+        issLimitado = true;
+
+        const federais = TRIBUTOS_DAS.filter(t => t !== 'iss' && (percentuais[t] || 0) > 0);
+        const somaFederais = federais.reduce((acc, t) => acc + (percentuais[t] || 0), 0);
+        federais.forEach(t => { aliquotas[t] += excedente * (percentuais[t] || 0) / somaFederais; });
+    }
+
+    exclusoes.forEach(t => { aliquotas[t] = 0; });
+
+    const valores = emptyReparticao();
+    TRIBUTOS_DAS.forEach(t => { valores[t] = aliquotas[t] * receita; });
+    const total = TRIBUTOS_DAS.reduce((acc, t) => acc + valores[t], 0);
+
+    return { aliquotas, valores, total, issLimitado };
+}
+
+/**
+ * Anexo do Simples para a atividade; serviços sujeitos ao Fator R vão ao Anexo III a partir de 28%.
+ */
+export function resolveSimplesAnexo(activity: AppActivity, fatorR: number): string {
+    if (activity === 'servico_intellectual' || activity === 'hospitalar') {
+        return fatorR >= 0.28 ? "III" : "V";
+    } else if (activity === 'comercio') {
+        return "I";
+    } else if (activity === 'industria') {
+        return "II";
+    } else if (activity === 'servico_anexo_iv') {
+        return "IV";
+    }
+    return "III";
+}
+
+/**
+ * Faixa e alíquota efetiva do anexo: ((RBT12 x Alíq. Nominal) - Parcela a Deduzir) / RBT12.
+ */
+export function calculateSimplesAliquota(anexo: string, rbt12: number, regras: TaxRuleSet = resolveRuleSet(new Date())): {
+    faixa: number;
+    bracket: { limite: number; aliquota: number; deduzir: number };
+    aliquotaEfetiva: number;
+} {
+    const table = regras.simples[`ANEXO_${anexo}`];
+
+    const faixaIndex = table.findIndex(b => rbt12 <= b.limite);
+    const bracket = faixaIndex >= 0 ? table[faixaIndex] : table[table.length - 1];
+    const faixa = (faixaIndex >= 0 ? faixaIndex : table.length - 1) + 1;
+    const aliquotaEfetiva = rbt12 > 0 ? ((rbt12 * bracket.aliquota) - bracket.deduzir) / rbt12 : bracket.aliquota;
+
+    return { faixa, bracket, aliquotaEfetiva };
+}
+
+/**
+ * Percentuais de presunção do Lucro Presumido (IRPJ/CSLL) por atividade.
+ * Serviços em geral, inclusive construção por empreitada sem materiais: 32%.
+ * `base` substitui o percentual da atividade quando a subclasse CNAE tem presunção própria.
+ */
+export function getPresuncaoLucroPresumido(
+    activity: AppActivity,
+    rbt12: number,
+    regras: TaxRuleSet = resolveRuleSet(new Date()),
+    base?: PresuncaoLP
+): { irpj: number; csll: number; isLC224Applied: boolean } {
+    let presuncao = regras.presuncao.servicos;
+
+    if (base) {
+        presuncao = base;
+    } else if (activity === 'comercio' || activity === 'industria') {
+        presuncao = regras.presuncao.comercioIndustria;
+    } else if (activity === 'hospitalar') {
+        presuncao = regras.presuncao.hospitalar;
+    }
+
+    // LC 224/2025: acréscimo sobre a presunção acima do limite de receita (a partir de 2026)
+    const isLC224Applied = regras.lc224.acrescimo > 0 && rbt12 > regras.lc224.limiteReceita;
+    const fator = isLC224Applied ? 1 + regras.lc224.acrescimo : 1;
+
+    return { irpj: presuncao.irpj * fator, csll: presuncao.csll * fator, isLC224Applied };
+}
+
+// IRPJ do LP: adicional apurado no trimestre (base > R$ 60 mil); aqui, a média mensal de um trimestre
+// uniforme. Com a série mensal, valem as apurações de calculateLucroPresumidoTrimestral.
+const irpjPresumidoMensal = (baseIRPJ: number) => baseIRPJ * 0.15 + Math.max(0, baseIRPJ * 3 - 60000) * 0.10 / 3;
+
+// Média mensal do IRPJ/CSLL das apurações trimestrais (faturamento sazonal); null sem apurações
+const mediaMensalTrimestral = (apuracoes?: ApuracaoTrimestralLP[]): { irpj: number; csll: number } | null => {
+    const meses = (apuracoes || []).reduce((acc, t) => acc + t.meses, 0);
+    if (!apuracoes || meses === 0) return null;
+    return {
+        irpj: apuracoes.reduce((acc, t) => acc + t.irpj, 0) / meses,
+        csll: apuracoes.reduce((acc, t) => acc + t.csll, 0) / meses
+    };
+};
+
+// Lucro Real mensal: compensação de prejuízo fiscal limitada a 30% do lucro; adicional acima de R$ 20 mil
+const apurarLucroReal = (lucroContabil: number, prejuizoAcumulado: number) => {
+    const compensacaoPrejuizo = lucroContabil > 0 ? Math.min(prejuizoAcumulado, lucroContabil * 0.30) : 0;
+    const baseCalculo = Math.max(0, lucroContabil - compensacaoPrejuizo);
+    return {
+        compensacaoPrejuizo,
+        baseCalculo,
+        irpj: baseCalculo * 0.15 + (baseCalculo > 20000 ? (baseCalculo - 20000) * 0.10 : 0),
+        csll: baseCalculo * 0.09
+    };
+};
+
 export function calculateTaxEngine(
     rbt12: number,
     monthlyBilling: number,
     monthlyPayroll: number, // Total (Salarios + Pro-Labore)
-    activity: 'comercio' | 'industria' | 'servico_geral' | 'servico_intellectual' | 'hospitalar',
+    activity: AppActivity,
     isB2B: boolean,
     issRate: number = 0.05,
     ratRate: number = 0.02,
     terceirosRate: number = 0.058,
-    monthlyProLabore: number = 0
+    monthlyProLabore: number = 0,
+    options: TaxEngineOptions = {}
 ): TaxResults {
 
+    const regras = options.regras ?? resolveRuleSet(new Date());
+
     // 1. Lógica Fator R
     const monthlySalaries = Math.max(0, monthlyPayroll - monthlyProLabore);
     const massaSalarialComFGTS = (monthlySalaries * 1.08) + monthlyProLabore;
-    const fatorR = rbt12 > 0 ? (massaSalarialComFGTS * 12) / rbt12 : 0;
+    const fatorR = options.fatorR ?? (rbt12 > 0 ? (massaSalarialComFGTS * 12) / rbt12 : 0);
 
-    let simplesAnexo = "III";
-    if (activity === 'servico_intellectual' || activity === 'hospitalar') {
-        simplesAnexo = fatorR >= 0.28 ? "III" : "V";
-    } else if (activity === 'comercio') {
-        simplesAnexo = "I";
-    }
+    const simplesAnexo = resolveSimplesAnexo(activity, fatorR);
 
     // 2. Cálculo Alíquota Efetiva Simples
-    const table = simplesAnexo === "I" ? SIMPLES_TABLE.ANEXO_I :
-        (simplesAnexo === "III" ? SIMPLES_TABLE.ANEXO_III : SIMPLES_TABLE.ANEXO_V);
+    const { faixa, bracket, aliquotaEfetiva } = calculateSimplesAliquota(simplesAnexo, rbt12, regras);
 
-    const bracket = table.find(b => rbt12 <= b.limite) || table[table.length - 1];
-    const aliquotaEfetiva = rbt12 > 0 ? ((rbt12 * bracket.aliquota) - bracket.deduzir) / rbt12 : bracket.aliquota;
+    // Sublimite: excedido, ICMS/ISS saem do DAS e são recolhidos pelas regras normais (LC 123, art. 20, § 1º).
+    // Com os limites do ano valem o sublimite proporcional do início de atividade e o prazo dos efeitos do excesso
+    const sublimiteExcedido = options.limites ? options.limites.sublimiteExcedido : rbt12 > SUBLIMITE_ICMS_ISS;
+    const proximoSublimite = !sublimiteExcedido && (options.limites
+        ? options.limites.receitaAno > options.limites.sublimite * 0.9
+        : rbt12 > SUBLIMITE_ICMS_ISS * 0.9);
+    const exclusoesSublimite: TributoDAS[] = sublimiteExcedido ? ['icms', 'iss'] : [];
 
-    const simplesTotal = monthlyBilling * aliquotaEfetiva;
+    // Segregação de receitas no PGDAS-D (LC 123, art. 18, §§ 4º-A e 14): cada parcela exclui os tributos não devidos
+    const seg = options.segregacao || {};
+    const partes: { fracao: number; exclusoes: TributoDAS[] }[] = [
+        { fracao: seg.st || 0, exclusoes: ['icms', ...exclusoesSublimite] },
+        { fracao: seg.monofasico || 0, exclusoes: ['pis', 'cofins', ...exclusoesSublimite] },
+        { fracao: seg.exportacao || 0, exclusoes: ['pis', 'cofins', 'icms', 'iss', 'ipi'] }
+    ];
+    const fracaoSegregada = Math.min(1, partes.reduce((acc, p) => acc + p.fracao, 0));
+    partes.push({ fracao: 1 - fracaoSegregada, exclusoes: exclusoesSublimite });
 
-    // 3. Lucro Presumido
-    let presirpj = 0.32;
-    let prescsll = 0.32;
+    const reparticaoIntegral = calculateDasRepartition(simplesAnexo, faixa, aliquotaEfetiva, monthlyBilling);
+    const reparticao = { ...reparticaoIntegral, valores: emptyReparticao(), total: 0 };
+    partes.filter(p => p.fracao > 0).forEach(p => {
+        const r = calculateDasRepartition(simplesAnexo, faixa, aliquotaEfetiva, monthlyBilling * p.fracao, p.exclusoes);
+        TRIBUTOS_DAS.forEach(t => { reparticao.valores[t] += r.valores[t]; });
+        reparticao.total += r.total;
+    });
+    const simplesTotal = reparticao.total;
+    const economiaSegregacao = reparticaoIntegral.total - reparticao.total;
 
-    if (activity === 'comercio' || activity === 'industria') {
-        presirpj = 0.08;
-        prescsll = 0.12;
-    } else if (activity === 'hospitalar') {
-        presirpj = 0.08;
-        prescsll = 0.12;
-    }
+    // Cota patronal sobre a folha fora do DAS; setores desonerados: CPRB sobre a receita + INSS reduzido
+    const cprbRate = options.cprbRate || 0;
+    const cprb = monthlyBilling * cprbRate * regras.desoneracao.fatorCprb;
+    const inssPatronal = monthlyPayroll * aliquotaInssPatronal(regras, cprbRate);
 
-    // LC 224/2025 - 2026 Rule: +10% on presumption if billing > 5M
-    const isAbove5M = rbt12 > 5000000;
-    if (isAbove5M) {
-        presirpj = presirpj * 1.1;
-        prescsll = prescsll * 1.1;
-    }
+    // Anexo IV: CPP (ou CPRB + INSS reduzido) + RAT continuam devidos sobre a folha, em guia própria
+    const cppForaDoDas = simplesAnexo === "IV" ? inssPatronal + cprb + monthlySalaries * ratRate : 0;
+
+    // ICMS/ISS pelas regras normais (débito sobre a receita, créditos de ICMS sobre as compras)
+    const isServico = activity === 'servico_geral' || activity === 'servico_intellectual' || activity === 'hospitalar' || activity === 'servico_anexo_iv';
+    const tributoConsumo = options.tributoConsumo ?? (isServico ? 'iss' : 'icms');
+    const icmsRate = options.icmsRate ?? 0.18;
+    const creditableInputs = options.creditableInputs || 0;
+    // Fora do Simples a mesma segregação: sem ICMS próprio na ST, sem PIS/COFINS no monofásico e na exportação
+    const exportacao = Math.min(1, seg.exportacao || 0);
+    const fracaoIcms = Math.max(0, 1 - (seg.st || 0) - exportacao);
+    const fracaoPisCofins = Math.max(0, 1 - (seg.monofasico || 0) - exportacao);
+    const receitaTributavelConsumo = monthlyBilling * (1 - exportacao);
+    const icmsNormal = tributoConsumo === 'icms' ? Math.max(0, (monthlyBilling - creditableInputs) * fracaoIcms * icmsRate) : 0;
+    const issNormal = tributoConsumo === 'iss' ? receitaTributavelConsumo * issRate : 0;
+    // Sociedade uniprofissional: valor fixo por profissional habilitado (DL 406/68, art. 9º, §§ 1º e 3º)
+    const issPresumidoReal = tributoConsumo === 'iss' && options.issFixoMensal !== undefined ? options.issFixoMensal : issNormal;
+
+    const { fatorIcmsIss, pisCofinsExtinto } = regras.reforma;
+    const icmsForaDoDas = sublimiteExcedido ? icmsNormal * fatorIcmsIss : 0;
+    const issForaDoDas = sublimiteExcedido ? issNormal * fatorIcmsIss : 0;
+    const reducaoCbsIbs = options.reducaoCbsIbs || 0;
+    const ibsForaDoDas = sublimiteExcedido && pisCofinsExtinto
+        ? Math.max(0, receitaTributavelConsumo * (1 - reducaoCbsIbs) - creditableInputs) * regras.reforma.ibs
+        : 0;
+
+    // 3. Lucro Presumido
+    const presuncao = getPresuncaoLucroPresumido(activity, rbt12, regras, options.presuncao);
+    const presirpj = presuncao.irpj;
+    const prescsll = presuncao.csll;
+    const isAbove5M = presuncao.isLC224Applied;
 
     const baseIRPJ = monthlyBilling * presirpj;
     const baseCSLL = monthlyBilling * prescsll;
 
-    const irpj = baseIRPJ * 0.15 + (baseIRPJ > 20000 ? (baseIRPJ - 20000) * 0.10 : 0);
-    const csll = baseCSLL * 0.09;
-    const pis = monthlyBilling * 0.0065;
-    const cofins = monthlyBilling * 0.03;
-    const issqn = (activity === 'servico_geral' || activity === 'servico_intellectual' || activity === 'hospitalar')
-        ? monthlyBilling * issRate
-        : 0;
+    const trimestral = mediaMensalTrimestral(options.apuracaoTrimestralLP);
+    const irpj = trimestral ? trimestral.irpj : irpjPresumidoMensal(baseIRPJ);
+    const csll = trimestral ? trimestral.csll : baseCSLL * 0.09;
+    // Tributos sobre consumo do ano: PIS/COFINS cumulativo até 2026, CBS/IBS a partir de 2027
+    const consumoLP = calculateTributosConsumo(regras, receitaTributavelConsumo, creditableInputs, {
+        pis: monthlyBilling * fracaoPisCofins * regras.pisCofins.pisCumulativo,
+        cofins: monthlyBilling * fracaoPisCofins * regras.pisCofins.cofinsCumulativo,
+        icms: icmsNormal,
+        iss: issPresumidoReal
+    }, reducaoCbsIbs);
+    const { pis, cofins, iss: issqn, icms } = consumoLP;
+
+    const lpTotal = irpj + csll + consumoLP.total;
+
+    // 4. Lucro Real (apuração sobre o lucro contábil ajustado)
+    const monthlyExpenses = options.monthlyExpenses || 0;
+    const prejuizoAcumulado = options.prejuizoFiscalAcumulado || 0;
+
+    // Encargos patronais fora do Simples: INSS patronal (e CPRB) sobre a massa, RAT e Terceiros sobre salários
+    const encargosPatronais = inssPatronal + cprb + monthlySalaries * (ratRate + terceirosRate);
+    const encargosFolhaLR = encargosPatronais + monthlySalaries * 0.08;
+
+    // PIS/COFINS não-cumulativo: débito sobre a receita menos créditos sobre insumos
+    // Débito e crédito sobre a mesma parcela tributável (sem monofásico e exportação)
+    const { pisNaoCumulativo, cofinsNaoCumulativo } = regras.pisCofins;
+    const debitoPisCofins = monthlyBilling * fracaoPisCofins * (pisNaoCumulativo + cofinsNaoCumulativo);
+    const creditoPisCofins = Math.min(debitoPisCofins, creditableInputs * fracaoPisCofins * (pisNaoCumulativo + cofinsNaoCumulativo));
+    const fracaoCredito = debitoPisCofins > 0 ? creditoPisCofins / debitoPisCofins : 0;
+    const consumoLR = calculateTributosConsumo(regras, receitaTributavelConsumo, creditableInputs, {
+        pis: monthlyBilling * fracaoPisCofins * pisNaoCumulativo * (1 - fracaoCredito),
+        cofins: monthlyBilling * fracaoPisCofins * cofinsNaoCumulativo * (1 - fracaoCredito),
+        icms: icmsNormal,
+        iss: issPresumidoReal
+    }, reducaoCbsIbs);
+    const creditosPisCofins = pisCofinsExtinto ? consumoLR.creditosCbsIbs : creditoPisCofins;
 
-    const lpTotal = irpj + csll + pis + cofins + issqn;
+    const lucroContabil = monthlyBilling - monthlyExpenses - monthlyPayroll - encargosFolhaLR - consumoLR.total;
 
-    // 4. Reforma Tributaria (Simulação 2026 - 1%)
-    const cbs_ibs = monthlyBilling * 0.01;
+    const { compensacaoPrejuizo, baseCalculo: baseLR, irpj: irpjLR, csll: csllLR } = apurarLucroReal(lucroContabil, prejuizoAcumulado);
+    const lrTotal = irpjLR + csllLR + consumoLR.total;
+
+    // 5. Reforma Tributaria (CBS/IBS da versão vigente; 2026: teste de 1%)
+    const cbs_ibs = receitaTributavelConsumo * (regras.reforma.cbs + regras.reforma.ibs) * (1 - reducaoCbsIbs);
+
+    const elegivelSimples = options.limites ? options.limites.elegivel : rbt12 <= LIMITE_SIMPLES;
+    const elegivelLP = rbt12 <= 78000000;
+
+    const comparativo = {
+        simples: simplesTotal + cppForaDoDas + icmsForaDoDas + issForaDoDas + ibsForaDoDas,
+        presumido: lpTotal + encargosPatronais,
+        real: lrTotal + encargosPatronais
+    };
 
     // Sugestão
-    let sugestao = lpTotal < simplesTotal ? "Lucro Presumido" : "Simples Nacional";
-    if (isB2B && sugestao === "Simples Nacional") {
-        sugestao += " (Considere Regime Híbrido para B2B)";
-    }
+    const sugestao = chooseRegime(
+        comparativo,
+        { simples: elegivelSimples, presumido: elegivelLP },
+        isB2B
+    );
 
     const results: TaxResults = {
         simples: {
-            elegivel: rbt12 <= 4800000,
+            elegivel: elegivelSimples,
             anexo: simplesAnexo,
             aliquotaEfetiva: aliquotaEfetiva * 100,
             aliquotaNominal: bracket.aliquota * 100,
             parcelaDeduzir: bracket.deduzir,
             dasTotal: simplesTotal,
+            faixa,
+            reparticao: reparticao.valores,
+            issLimitado: reparticao.issLimitado,
+            cppForaDoDas,
+            sublimiteExcedido,
+            proximoSublimite,
+            icmsForaDoDas,
+            issForaDoDas,
+            ibsForaDoDas,
+            economiaSegregacao,
             fatorR: fatorR * 100
         },
         lucroPresumido: {
-            elegivel: rbt12 <= 78000000,
+            elegivel: elegivelLP,
             irpj,
             csll,
             pis,
             cofins,
+            cbs: consumoLP.cbs,
+            ibs: consumoLP.ibs,
             issqn,
+            icms,
             total: lpTotal,
             aliquotaEfetiva: (lpTotal / monthlyBilling) * 100,
             presuncaoirpj: presirpj * 100,
             isLC224Applied: isAbove5M
         },
+        lucroReal: {
+            elegivel: true,
+            lucroContabil,
+            compensacaoPrejuizo,
+            prejuizoGerado: lucroContabil < 0 ? -lucroContabil : 0,
+            baseCalculo: baseLR,
+            irpj: irpjLR,
+            csll: csllLR,
+            pis: consumoLR.pis,
+            cofins: consumoLR.cofins,
+            cbs: consumoLR.cbs,
+            ibs: consumoLR.ibs,
+            creditosPisCofins,
+            issqn: consumoLR.iss,
+            icms: consumoLR.icms,
+            total: lrTotal,
+            aliquotaEfetiva: monthlyBilling > 0 ? (lrTotal / monthlyBilling) * 100 : 0
+        },
         reforma2026: {
             cbs_ibs,
-            percentualReducao: 0, // Placeholder
-            fase: "Teste (1%)"
+            percentualReducao: (1 - fatorIcmsIss) * 100,
+            fase: regras.reforma.fase
         },
         folha: {
-            inssPatronal: simplesAnexo === "IV" || lpTotal > 0 ? monthlyPayroll * 0.20 : 0,
+            inssPatronal: simplesAnexo === "IV" || lpTotal > 0 ? inssPatronal : 0,
+            cprb,
+            economiaDesoneracao: cprbRate > 0 ? monthlyPayroll * ALIQUOTA_CPP - inssPatronal - cprb : 0,
             rat: simplesAnexo === "IV" || lpTotal > 0 ? monthlySalaries * ratRate : 0,
             terceiros: lpTotal > 0 ? monthlySalaries * terceirosRate : 0, // Simples Geral não paga terceiros
             totalEncargos: 0, // Calculated below
             percentualSobreFolha: 0,
             isSimplesSubstituido: simplesAnexo !== "IV"
         },
-        sugestao
+        comparativo,
+        sugestao,
+        versaoRegras: regras.versao
     };
 
     // Ajuste final dos totais de folha
@@ -187,9 +544,9 @@ export function calculateTaxEngine(
     const isAnexoIV = simplesAnexo === "IV";
 
     if (isLP) {
-        results.folha.totalEncargos = results.folha.inssPatronal + results.folha.rat + results.folha.terceiros;
+        results.folha.totalEncargos = results.folha.inssPatronal + results.folha.cprb + results.folha.rat + results.folha.terceiros;
     } else if (isAnexoIV) {
-        results.folha.totalEncargos = results.folha.inssPatronal + results.folha.rat;
+        results.folha.totalEncargos = results.folha.inssPatronal + results.folha.cprb + results.folha.rat;
     } else {
         results.folha.totalEncargos = 0; // Outros anexos do simples o INSS patronal está no DAS
     }
@@ -198,3 +555,530 @@ export function calculateTaxEngine(
 
     return results;
 }
+
+export interface LinhaAtividade {
+    activity: AppActivity;
+    percentual: number; // % da receita mensal; a soma das linhas deve ser 100
+    label?: string;
+    reducaoCbsIbs?: number;
+    segregacao?: SegregacaoReceita;
+    issRate?: number; // ISS do município da prestação; padrão: a alíquota da empresa
+    presuncao?: PresuncaoLP; // Presunção da subclasse CNAE, quando difere da atividade
+    tributoConsumo?: TributoConsumo;
+    uniprofissional?: boolean; // Profissão regulamentada sujeita ao ISS fixo da sociedade
+}
+
+export interface ResultadoLinhaAtividade {
+    linha: LinhaAtividade;
+    receita: number;
+    anexo: string;
+    presuncaoIrpj: number; // %
+    resultado: TaxResults;
+}
+
+export interface MultiActivityResults extends TaxResults {
+    linhas: ResultadoLinhaAtividade[];
+    errosDistribuicao: string[];
+}
+
+/**
+ * Erros na distribuição da receita entre as atividades; lista vazia quando a soma é 100%.
+ */
+export function validateDistribuicaoAtividades(linhas: LinhaAtividade[]): string[] {
+    const erros: string[] = [];
+    if (linhas.length === 0) erros.push('Nenhuma atividade com receita.');
+    linhas.filter(l => l.percentual < 0).forEach(l => erros.push(`Percentual negativo em ${l.label || l.activity}.`));
+    const soma = linhas.reduce((acc, l) => acc + l.percentual, 0);
+    if (linhas.length > 0 && Math.abs(soma - 100) > 0.01) {
+        erros.push(`A distribuição soma ${soma.toFixed(2)}% (deve somar 100%); percentuais normalizados no cálculo.`);
+    }
+    return erros;
+}
+
+/**
+ * Apuração de empresa com várias atividades sob o mesmo RBT12 (LC 123, art. 18, § 4º): cada linha vai
+ * ao seu anexo com o Fator R da empresa e, no LP, ao seu percentual de presunção. Folha, despesas e
+ * créditos são rateados pela receita. IRPJ (adicional) do LP e IRPJ/CSLL do Real são apurados sobre a
+ * base consolidada, pois o adicional e a compensação de prejuízo são da empresa, não da atividade.
+ */
+export function calculateMultiActivity(
+    linhas: LinhaAtividade[],
+    rbt12: number,
+    monthlyBilling: number,
+    monthlyPayroll: number, // Total (Salarios + Pro-Labore)
+    isB2B: boolean,
+    issRate: number = 0.05,
+    ratRate: number = 0.02,
+    terceirosRate: number = 0.058,
+    monthlyProLabore: number = 0,
+    options: TaxEngineOptions = {}
+): MultiActivityResults {
+    const errosDistribuicao = validateDistribuicaoAtividades(linhas);
+    const ativas = linhas.filter(l => l.percentual > 0);
+    if (ativas.length === 0) throw new Error('Informe ao menos uma atividade com percentual de receita.');
+    const somaPercentuais = ativas.reduce((acc, l) => acc + l.percentual, 0);
+
+    const monthlySalaries = Math.max(0, monthlyPayroll - monthlyProLabore);
+    const fatorR = options.fatorR ?? (rbt12 > 0 ? ((monthlySalaries * 1.08 + monthlyProLabore) * 12) / rbt12 : 0);
+
+    // ISS fixo: valor da sociedade, lançado uma vez na linha uniprofissional (sem marcação, na de maior receita com ISS)
+    const tributaIss = (l: LinhaAtividade) => (l.tributoConsumo ?? (l.activity === 'comercio' || l.activity === 'industria' ? 'icms' : 'iss')) === 'iss';
+    const candidatasIssFixo = ativas.filter(l => l.uniprofissional && tributaIss(l));
+    const linhaIssFixo = (candidatasIssFixo.length > 0 ? candidatasIssFixo : ativas.filter(tributaIss))
+        .reduce<LinhaAtividade | undefined>((a, b) => (!a || b.percentual > a.percentual ? b : a), undefined);
+
+    const resultados: ResultadoLinhaAtividade[] = ativas.map(linha => {
+        const peso = linha.percentual / somaPercentuais;
+        const resultado = calculateTaxEngine(
+            rbt12, monthlyBilling * peso, monthlyPayroll * peso, linha.activity, isB2B,
+            linha.issRate ?? issRate, ratRate, terceirosRate, monthlyProLabore * peso,
+            {
+                ...options,
+                monthlyExpenses: (options.monthlyExpenses || 0) * peso,
+                creditableInputs: (options.creditableInputs || 0) * peso,
+                prejuizoFiscalAcumulado: options.prejuizoFiscalAcumulado || 0,
+                reducaoCbsIbs: linha.reducaoCbsIbs ?? options.reducaoCbsIbs,
+                segregacao: linha.segregacao ?? options.segregacao,
+                presuncao: linha.presuncao ?? options.presuncao,
+                tributoConsumo: linha.tributoConsumo ?? options.tributoConsumo,
+                // As demais linhas uniprofissionais já estão cobertas pelo valor fixo
+                issFixoMensal: options.issFixoMensal === undefined
+                    ? undefined
+                    : linha === linhaIssFixo ? options.issFixoMensal : linha.uniprofissional && tributaIss(linha) ? 0 : undefined,
+                // A apuração trimestral é da empresa toda: entra só na consolidação
+                apuracaoTrimestralLP: undefined,
+                fatorR
+            }
+        );
+        return {
+            linha,
+            receita: monthlyBilling * peso,
+            anexo: resultado.simples.anexo,
+            presuncaoIrpj: resultado.lucroPresumido.presuncaoirpj,
+            resultado
+        };
+    });
+
+    const soma = (valor: (r: TaxResults) => number) => resultados.reduce((acc, l) => acc + valor(l.resultado), 0);
+    const predominante = resultados.reduce((a, b) => (b.receita > a.receita ? b : a)).resultado;
+
+    const reparticao = emptyReparticao();
+    TRIBUTOS_DAS.forEach(t => { reparticao[t] = soma(r => r.simples.reparticao[t]); });
+    const dasTotal = soma(r => r.simples.dasTotal);
+
+    // LP: adicional do IRPJ sobre a soma das bases presumidas de todas as atividades, ou por trimestre da série
+    const baseIrpjLP = resultados.reduce((acc, l) => acc + l.receita * l.presuncaoIrpj / 100, 0);
+    const trimestral = mediaMensalTrimestral(options.apuracaoTrimestralLP);
+    const irpjLP = trimestral ? trimestral.irpj : irpjPresumidoMensal(baseIrpjLP);
+    const csllLP = trimestral ? trimestral.csll : soma(r => r.lucroPresumido.csll);
+    const consumoLP = soma(r => r.lucroPresumido.total - r.lucroPresumido.irpj - r.lucroPresumido.csll);
+    const lpTotal = irpjLP + csllLP + consumoLP;
+
+    // Lucro Real: o prejuízo de uma atividade reduz o lucro das demais
+    const lucroContabil = soma(r => r.lucroReal.lucroContabil);
+    const lr = apurarLucroReal(lucroContabil, options.prejuizoFiscalAcumulado || 0);
+    const consumoLR = soma(r => r.lucroReal.total - r.lucroReal.irpj - r.lucroReal.csll);
+    const lrTotal = lr.irpj + lr.csll + consumoLR;
+
+    const encargosForaDoSimples = soma(r => r.comparativo.presumido - r.lucroPresumido.total);
+    const comparativo = {
+        simples: soma(r => r.comparativo.simples),
+        presumido: lpTotal + encargosForaDoSimples,
+        real: lrTotal + encargosForaDoSimples
+    };
+
+    const elegivelSimples = predominante.simples.elegivel;
+    const elegivelLP = predominante.lucroPresumido.elegivel;
+    const totalEncargos = soma(r => r.folha.totalEncargos);
+
+    return {
+        simples: {
+            ...predominante.simples,
+            aliquotaEfetiva: monthlyBilling > 0 ? (dasTotal / monthlyBilling) * 100 : 0,
+            dasTotal,
+            reparticao,
+            issLimitado: resultados.some(l => l.resultado.simples.issLimitado),
+            cppForaDoDas: soma(r => r.simples.cppForaDoDas),
+            icmsForaDoDas: soma(r => r.simples.icmsForaDoDas),
+            issForaDoDas: soma(r => r.simples.issForaDoDas),
+            ibsForaDoDas: soma(r => r.simples.ibsForaDoDas),
+            economiaSegregacao: soma(r => r.simples.economiaSegregacao),
+            fatorR: fatorR * 100
+        },
+        lucroPresumido: {
+            elegivel: elegivelLP,
+            irpj: irpjLP,
+            csll: csllLP,
+            pis: soma(r => r.lucroPresumido.pis),
+            cofins: soma(r => r.lucroPresumido.cofins),
+            cbs: soma(r => r.lucroPresumido.cbs),
+            ibs: soma(r => r.lucroPresumido.ibs),
+            issqn: soma(r => r.lucroPresumido.issqn),
+            icms: soma(r => r.lucroPresumido.icms),
+            total: lpTotal,
+            aliquotaEfetiva: monthlyBilling > 0 ? (lpTotal / monthlyBilling) * 100 : 0,
+            presuncaoirpj: monthlyBilling > 0 ? (baseIrpjLP / monthlyBilling) * 100 : predominante.lucroPresumido.presuncaoirpj,
+            isLC224Applied: resultados.some(l => l.resultado.lucroPresumido.isLC224Applied)
+        },
+        lucroReal: {
+            elegivel: true,
+            lucroContabil,
+            compensacaoPrejuizo: lr.compensacaoPrejuizo,
+            prejuizoGerado: lucroContabil < 0 ? -lucroContabil : 0,
+            baseCalculo: lr.baseCalculo,
+            irpj: lr.irpj,
+            csll: lr.csll,
+            pis: soma(r => r.lucroReal.pis),
+            cofins: soma(r => r.lucroReal.cofins),
+            cbs: soma(r => r.lucroReal.cbs),
+            ibs: soma(r => r.lucroReal.ibs),
+            creditosPisCofins: soma(r => r.lucroReal.creditosPisCofins),
+            issqn: soma(r => r.lucroReal.issqn),
+            icms: soma(r => r.lucroReal.icms),
+            total: lrTotal,
+            aliquotaEfetiva: monthlyBilling > 0 ? (lrTotal / monthlyBilling) * 100 : 0
+        },
+        reforma2026: { ...predominante.reforma2026, cbs_ibs: soma(r => r.reforma2026.cbs_ibs) },
+        folha: {
+            inssPatronal: soma(r => r.folha.inssPatronal),
+            cprb: soma(r => r.folha.cprb),
+            economiaDesoneracao: soma(r => r.folha.economiaDesoneracao),
+            rat: soma(r => r.folha.rat),
+            terceiros: soma(r => r.folha.terceiros),
+            totalEncargos,
+            percentualSobreFolha: monthlyPayroll > 0 ? (totalEncargos / monthlyPayroll) * 100 : 0,
+            isSimplesSubstituido: resultados.every(l => l.resultado.folha.isSimplesSubstituido)
+        },
+        comparativo,
+        sugestao: chooseRegime(comparativo, { simples: elegivelSimples, presumido: elegivelLP }, isB2B),
+        versaoRegras: predominante.versaoRegras,
+        linhas: resultados,
+        errosDistribuicao
+    };
+}
+
+/**
+ * Escolhe o regime de menor carga (ver `comparativo`) entre os elegíveis.
+ * Lucro Real é sempre elegível; Simples e Presumido dependem do RBT12.
+ */
+export function chooseRegime(
+    totals: { simples: number; presumido: number; real: number },
+    elegibilidade: { simples: boolean; presumido: boolean },
+    isB2B: boolean
+): string {
+    const candidatos: { regime: RegimeTributario; total: number }[] = [
+        { regime: 'Lucro Real', total: totals.real }
+    ];
+    if (elegibilidade.presumido) candidatos.unshift({ regime: 'Lucro Presumido', total: totals.presumido });
+    if (elegibilidade.simples) candidatos.unshift({ regime: 'Simples Nacional', total: totals.simples });
+
+    const melhor = candidatos.reduce((a, b) => (b.total < a.total ? b : a));
+
+    let sugestao: string = melhor.regime;
+    if (isB2B && melhor.regime === 'Simples Nacional') {
+        sugestao += " (Considere Regime Híbrido para B2B)";
+    }
+    return sugestao;
+}
+
+export type EfeitoExcesso = 'imediato' | 'janeiro_seguinte';
+
+export interface EventoExcessoLimite {
+    tipo: 'sublimite' | 'limite';
+    limite: number;
+    receita: number;
+    excessoPercentual: number; // % acima do limite
+    efeito: EfeitoExcesso;
+    retroativo: boolean; // Início de atividade com excesso acima de 20%: efeitos desde a abertura
+    inicioEfeitos: { ano: number; mes: number };
+    fundamento: string;
+}
+
+export interface LimitesSimples {
+    primeiroAno: boolean;
+    mesesAtividade: number; // Meses de funcionamento no ano-calendário
+    limite: number;
+    sublimite: number;
+    receitaAno: number; // Receita acumulada no ano-calendário até a competência
+    rbt12Anualizado: number | null; // Início de atividade: média mensal x 12 (LC 123, art. 18, § 2º)
+    elegivel: boolean; // Permanece no Simples na competência
+    sublimiteExcedido: boolean; // ICMS/ISS fora do DAS na competência
+    excessoSublimiteAnoAnterior: boolean; // Receita do ano anterior acima do sublimite: ICMS/ISS fora do DAS desde janeiro
+    eventos: EventoExcessoLimite[];
+}
+
+/**
+ * Limites do Simples no ano-calendário da competência. No ano de início de atividade os limites são
+ * de R$ 400 mil (R$ 300 mil no sublimite) por mês de funcionamento e o RBT12 é anualizado. Excesso de
+ * até 20%: efeitos em 1º de janeiro seguinte; acima de 20%, a partir do mês seguinte, ou retroativos
+ * à abertura no ano de início (LC 123, art. 3º, §§ 9º, 9º-A, 10 e 12; art. 20, §§ 1º e 1º-A).
+ * Com `receitaAnoAnterior`, o excesso ao sublimite no ano anterior mantém ICMS/ISS fora do DAS no ano todo.
+ */
+export function checkLimitesSimples(
+    competencia: { ano: number; mes: number },
+    receitaAno: number,
+    inicioAtividade?: { ano: number; mes: number },
+    receitaAnoAnterior?: number
+): LimitesSimples {
+    const primeiroAno = !!inicioAtividade && inicioAtividade.ano === competencia.ano && inicioAtividade.mes <= competencia.mes;
+    const mesesAtividade = primeiroAno ? competencia.mes - inicioAtividade!.mes + 1 : 12;
+    const limite = primeiroAno ? LIMITE_MENSAL_INICIO * mesesAtividade : LIMITE_SIMPLES;
+    const sublimite = primeiroAno ? SUBLIMITE_MENSAL_INICIO * mesesAtividade : SUBLIMITE_ICMS_ISS;
+
+    const proximoMes = competencia.mes === 12
+        ? { ano: competencia.ano + 1, mes: 1 }
+        : { ano: competencia.ano, mes: competencia.mes + 1 };
+
+    const avaliar = (tipo: 'sublimite' | 'limite', valorLimite: number): EventoExcessoLimite | null => {
+        if (receitaAno <= valorLimite) return null;
+        const excessoPercentual = (receitaAno / valorLimite - 1) * 100;
+        const imediato = excessoPercentual > TOLERANCIA_EXCESSO * 100;
+        const retroativo = imediato && primeiroAno && tipo === 'limite';
+        return {
+            tipo,
+            limite: valorLimite,
+            receita: receitaAno,
+            excessoPercentual,
+            efeito: imediato ? 'imediato' : 'janeiro_seguinte',
+            retroativo,
+            inicioEfeitos: retroativo ? inicioAtividade! : imediato ? proximoMes : { ano: competencia.ano + 1, mes: 1 },
+            fundamento: tipo === 'limite'
+                ? (primeiroAno ? 'LC 123, art. 3º, §§ 10 e 12' : 'LC 123, art. 3º, §§ 9º e 9º-A')
+                : 'LC 123, art. 20, §§ 1º e 1º-A'
+        };
+    };
+
+    const eventos = [avaliar('sublimite', sublimite), avaliar('limite', limite)].filter((e): e is EventoExcessoLimite => e !== null);
+    const excessoLimite = eventos.find(e => e.tipo === 'limite');
+    const excessoSublimite = eventos.find(e => e.tipo === 'sublimite');
+
+    // Excesso do ano anterior (qualquer percentual) já produz efeitos desde janeiro (LC 123, art. 20, § 1º-A)
+    const anteriorEhInicio = !!inicioAtividade && inicioAtividade.ano === competencia.ano - 1;
+    const sublimiteAnterior = anteriorEhInicio ? SUBLIMITE_MENSAL_INICIO * (12 - inicioAtividade!.mes + 1) : SUBLIMITE_ICMS_ISS;
+    const excessoSublimiteAnoAnterior = !primeiroAno && (receitaAnoAnterior || 0) > sublimiteAnterior;
+
+    return {
+        primeiroAno,
+        mesesAtividade,
+        limite,
+        sublimite,
+        receitaAno,
+        rbt12Anualizado: primeiroAno ? (receitaAno / mesesAtividade) * 12 : null,
+        elegivel: !excessoLimite || excessoLimite.efeito === 'janeiro_seguinte',
+        sublimiteExcedido: excessoSublimiteAnoAnterior || excessoSublimite?.efeito === 'imediato',
+        excessoSublimiteAnoAnterior,
+        eventos
+    };
+}
+
+export interface CompetenciaReceita {
+    ano: number;
+    mes: number; // 1 a 12
+    receita: number;
+}
+
+export interface QuotaDARF {
+    numero: number;
+    vencimento: Date;
+    principal: number;
+    juros: number;
+    total: number;
+}
+
+export interface ApuracaoTrimestralLP {
+    ano: number;
+    trimestre: number;
+    receita: number;
+    meses: number; // Competências com dados no trimestre
+    mesesAtividade: number; // Meses do trimestre dentro do período de atividade: base do limite do adicional
+    baseIRPJ: number;
+    baseCSLL: number;
+    irpj: number;
+    adicionalIRPJ: number;
+    csll: number;
+    total: number;
+    quotas: QuotaDARF[];
+}
+
+export type FormaPagamentoLP = 'cota_unica' | 'tres_quotas';
+
+// Último dia útil (seg-sex) do mês; feriados não são considerados
+const ultimoDiaUtil = (ano: number, mesIndex: number): Date => {
+    const data = new Date(ano, mesIndex + 1, 0);
+    while (data.getDay() === 0 || data.getDay() === 6) {
+        data.setDate(data.getDate() - 1);
+    }
+    return data;
+};
+
+// Até 3 quotas de no mínimo R$ 1.000; valores abaixo de R$ 2.000 em quota única (Lei 9.430/96, art. 5º)
+const numeroQuotas = (valor: number, forma: FormaPagamentoLP): number => {
+    if (forma === 'cota_unica' || valor < 2000) return 1;
+    return Math.min(3, Math.floor(valor / 1000));
+};
+
+/**
+ * Apuração trimestral do IRPJ/CSLL no Lucro Presumido a partir da série mensal de receitas.
+ * Adicional de 10% sobre a base que exceder R$ 60.000 no trimestre; só no trimestre de início ou de
+ * encerramento de atividade o limite é de R$ 20.000 por mês de atividade (Lei 9.430/96, art. 4º, parágrafo
+ * único). Meses sem receita na série não reduzem o limite.
+ * Quotas vencem no último dia útil dos três meses seguintes ao trimestre; a 2ª e a 3ª
+ * têm juros SELIC acumulada a partir do 2º mês + 1% no mês do pagamento.
+ * `presuncao` pode variar por trimestre (ex.: acréscimo da LC 224 a partir de 2026).
+ */
+export function calculateLucroPresumidoTrimestral(
+    serie: CompetenciaReceita[],
+    presuncao: PresuncaoLP | ((competencia: { ano: number; mes: number }) => PresuncaoLP),
+    formaPagamento: FormaPagamentoLP = 'cota_unica',
+    selicMensal: number = 0.0117,
+    atividade: { inicio?: { ano: number; mes: number }; fim?: { ano: number; mes: number } } = {}
+): ApuracaoTrimestralLP[] {
+    const indice = (c: { ano: number; mes: number }) => c.ano * 12 + c.mes - 1;
+    const mesesAtividade = (ano: number, trimestre: number) => Math.max(1, [1, 2, 3].filter(i => {
+        const idx = indice({ ano, mes: (trimestre - 1) * 3 + i });
+        return (!atividade.inicio || idx >= indice(atividade.inicio)) && (!atividade.fim || idx <= indice(atividade.fim));
+    }).length);
+
+    const trimestres: Record<string, { ano: number; trimestre: number; receita: number; meses: number }> = {};
+
+    serie.forEach(c => {
+        const trimestre = Math.floor((c.mes - 1) / 3) + 1;
+        const key = `${c.ano}-${trimestre}`;
+        if (!trimestres[key]) trimestres[key] = { ano: c.ano, trimestre, receita: 0, meses: 0 };
+        trimestres[key].receita += c.receita;
+        trimestres[key].meses += 1;
+    });
+
+    return Object.values(trimestres)
+        .sort((a, b) => a.ano * 10 + a.trimestre - (b.ano * 10 + b.trimestre))
+        .map(t => {
+            const p = typeof presuncao === 'function' ? presuncao({ ano: t.ano, mes: t.trimestre * 3 - 2 }) : presuncao;
+            const baseIRPJ = t.receita * p.irpj;
+            const baseCSLL = t.receita * p.csll;
+            const meses = mesesAtividade(t.ano, t.trimestre);
+            const adicionalIRPJ = Math.max(0, baseIRPJ - 20000 * meses) * 0.10;
+            const irpj = baseIRPJ * 0.15 + adicionalIRPJ;
+            const csll = baseCSLL * 0.09;
+
+            // Cada tributo tem seu próprio DARF e número de quotas
+            const quotas: QuotaDARF[] = [];
+            const mesFimTrimestre = t.trimestre * 3 - 1; // índice 0-11
+            [irpj, csll].forEach(valor => {
+                const n = numeroQuotas(valor, formaPagamento);
+                for (let i = 0; i < n; i++) {
+                    const principal = valor / n;
+                    const taxaJuros = i === 0 ? 0 : selicMensal * (i - 1) + 0.01;
+                    if (!quotas[i]) {
+                        quotas[i] = {
+                            numero: i + 1,
+                            vencimento: ultimoDiaUtil(t.ano, mesFimTrimestre + 1 + i),
+                            principal: 0,
+                            juros: 0,
+                            total: 0
+                        };
+                    }
+                    quotas[i].principal += principal;
+                    quotas[i].juros += principal * taxaJuros;
+                    quotas[i].total = quotas[i].principal + quotas[i].juros;
+                }
+            });
+
+            return {
+                ano: t.ano,
+                trimestre: t.trimestre,
+                receita: t.receita,
+                meses: t.meses,
+                mesesAtividade: meses,
+                baseIRPJ,
+                baseCSLL,
+                irpj,
+                adicionalIRPJ,
+                csll,
+                total: irpj + csll,
+                quotas
+            };
+        });
+}
+
+export interface CompetenciaFolha {
+    ano: number;
+    mes: number; // 1 a 12
+    receita: number;
+    salarios: number;
+    proLabore: number;
+}
+
+export interface LedgerCompetencia {
+    ano: number;
+    mes: number;
+    receita: number;
+    rbt12: number;
+    folha12: number; // Salários + FGTS + Pró-labore dos 12 meses anteriores
+    fatorR: number; // %
+    anexo: string;
+    faixa: number;
+    aliquotaEfetiva: number; // %
+    das: number;
+    mesesHistorico: number;
+    rbt12Proporcional: boolean;
+    mudouAnexo: boolean;
+    versaoRegras: string;
+}
+
+/**
+ * Livro de apuração por competência: RBT12, Fator R e anexo usam os 12 meses anteriores
+ * ao período de apuração (LC 123, art. 18, §§ 1º e 24). Com menos de 12 meses de histórico
+ * os valores são anualizados pela média dos meses disponíveis (ou do próprio mês, no primeiro).
+ * As tabelas do Simples são as da versão vigente em cada competência.
+ */
+export function buildCompetenceLedger(
+    serie: CompetenciaFolha[],
+    activity: AppActivity,
+    ruleSets: TaxRuleSet[] = DEFAULT_RULE_SETS
+): LedgerCompetencia[] {
+    const ordenada = [...serie].sort((a, b) => (a.ano * 12 + a.mes) - (b.ano * 12 + b.mes));
+    let anexoAnterior: string | null = null;
+
+    return ordenada.map(c => {
+        const indice = c.ano * 12 + c.mes;
+        const anteriores = ordenada.filter(o => {
+            const diff = indice - (o.ano * 12 + o.mes);
+            return diff >= 1 && diff <= 12;
+        });
+
+        const folhaMes = (o: CompetenciaFolha) => o.salarios * 1.08 + o.proLabore; // FGTS apenas sobre salários
+        const base = anteriores.length > 0 ? anteriores : [c];
+        const somaReceita = base.reduce((acc, o) => acc + o.receita, 0);
+        const somaFolha = base.reduce((acc, o) => acc + folhaMes(o), 0);
+        const proporcional = anteriores.length < 12;
+
+        const rbt12 = proporcional ? (somaReceita / base.length) * 12 : somaReceita;
+        const folha12 = proporcional ? (somaFolha / base.length) * 12 : somaFolha;
+        const fatorR = rbt12 > 0 ? folha12 / rbt12 : 0;
+
+        const anexo = resolveSimplesAnexo(activity, fatorR);
+        const regras = resolveRuleSet(c, ruleSets);
+        const { faixa, aliquotaEfetiva } = calculateSimplesAliquota(anexo, rbt12, regras);
+        const das = calculateDasRepartition(anexo, faixa, aliquotaEfetiva, c.receita).total;
+
+        const mudouAnexo = anexoAnterior !== null && anexoAnterior !== anexo;
+        anexoAnterior = anexo;
+
+        return {
+            ano: c.ano,
+            mes: c.mes,
+            receita: c.receita,
+            rbt12,
+            folha12,
+            fatorR: fatorR * 100,
+            anexo,
+            faixa,
+            aliquotaEfetiva: aliquotaEfetiva * 100,
+            das,
+            mesesHistorico: anteriores.length,
+            rbt12Proporcional: proporcional,
+            mudouAnexo,
+            versaoRegras: regras.versao
+        };
+    });
+}
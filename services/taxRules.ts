@@ -0,0 +1,281 @@
+/**
+ * TanTax Rules - Tabelas tributárias versionadas por data de vigência (2024-2033)
+ */
+
+export interface FaixaSimples {
+    limite: number;
+    aliquota: number;
+    deduzir: number;
+}
+
+export interface PresuncaoLP {
+    irpj: number;
+    csll: number;
+}
+
+export interface TaxRuleSet {
+    versao: string; // Ex.: "2026.1"
+    vigenciaInicio: string; // AAAA-MM-DD; vale até a próxima versão
+    descricao: string;
+    simples: Record<string, FaixaSimples[]>; // ANEXO_I a ANEXO_V
+    presuncao: {
+        servicos: PresuncaoLP;
+        comercioIndustria: PresuncaoLP;
+        hospitalar: PresuncaoLP;
+    };
+    pisCofins: {
+        pisCumulativo: number;
+        cofinsCumulativo: number;
+        pisNaoCumulativo: number;
+        cofinsNaoCumulativo: number;
+    };
+    reforma: {
+        cbs: number;
+        ibs: number;
+        fase: string;
+        pisCofinsExtinto: boolean; // A partir de 2027 a CBS substitui PIS/COFINS
+        fatorIcmsIss: number; // Proporção remanescente do ICMS/ISS (1 até 2028, 0 em 2033)
+    };
+    // LC 224/2025: acréscimo sobre os percentuais de presunção acima do limite de receita
+    lc224: {
+        limiteReceita: number;
+        acrescimo: number;
+    };
+    // Lei 14.973/2024: reoneração gradual da folha dos setores com CPRB (2025-2028)
+    desoneracao: {
+        fatorCprb: number; // Proporção da alíquota setorial da CPRB sobre a receita
+        aliquotaFolha: number; // INSS patronal devido sobre a folha junto com a CPRB
+    };
+}
+
+export type StatusRuleSet = 'padrao' | 'publicado';
+
+export interface TaxRuleVersion {
+    regras: TaxRuleSet;
+    status: StatusRuleSet;
+    publicadoEm?: string;
+    publicadoPor?: string;
+}
+
+const SIMPLES_LC155: Record<string, FaixaSimples[]> = {
+    ANEXO_I: [
+        { limite: 180000, aliquota: 0.04, deduzir: 0 },
+        { limite: 360000, aliquota: 0.073, deduzir: 5940 },
+        { limite: 720000, aliquota: 0.095, deduzir: 13860 },
+        { limite: 1800000, aliquota: 0.107, deduzir: 22500 },
+        { limite: 3600000, aliquota: 0.143, deduzir: 87300 },
+        { limite: 4800000, aliquota: 0.19, deduzir: 378000 },
+    ],
+    ANEXO_II: [
+        { limite: 180000, aliquota: 0.045, deduzir: 0 },
+        { limite: 360000, aliquota: 0.078, deduzir: 5940 },
+        { limite: 720000, aliquota: 0.10, deduzir: 13860 },
+        { limite: 1800000, aliquota: 0.112, deduzir: 22500 },
+        { limite: 3600000, aliquota: 0.147, deduzir: 85500 },
+        { limite: 4800000, aliquota: 0.30, deduzir: 720000 },
+    ],
+    ANEXO_III: [
+        { limite: 180000, aliquota: 0.06, deduzir: 0 },
+        { limite: 360000, aliquota: 0.112, deduzir: 9360 },
+        { limite: 720000, aliquota: 0.135, deduzir: 17640 },
+        { limite: 1800000, aliquota: 0.16, deduzir: 35640 },
+        { limite: 3600000, aliquota: 0.21, deduzir: 125640 },
+        { limite: 4800000, aliquota: 0.33, deduzir: 648000 },
+    ],
+    // Anexo IV: CPP não incluída no DAS (LC 123, art. 18, § 5º-C)
+    ANEXO_IV: [
+        { limite: 180000, aliquota: 0.045, deduzir: 0 },
+        { limite: 360000, aliquota: 0.09, deduzir: 8100 },
+        { limite: 720000, aliquota: 0.102, deduzir: 12420 },
+        { limite: 1800000, aliquota: 0.14, deduzir: 39780 },
+        { limite: 3600000, aliquota: 0.22, deduzir: 183780 },
+        { limite: 4800000, aliquota: 0.33, deduzir: 828000 },
+    ],
+    ANEXO_V: [
+        { limite: 180000, aliquota: 0.155, deduzir: 0 },
+        { limite: 360000, aliquota: 0.18, deduzir: 4500 },
+        { limite: 720000, aliquota: 0.195, deduzir: 9900 },
+        { limite: 1800000, aliquota: 0.205, deduzir: 17100 },
+        { limite: 3600000, aliquota: 0.23, deduzir: 62100 },
+        { limite: 4800000, aliquota: 0.305, deduzir: 540000 },
+    ]
+};
+
+const REGRAS_2024: TaxRuleSet = {
+    versao: '2024.1',
+    vigenciaInicio: '2024-01-01',
+    descricao: 'LC 123/2006 (LC 155/2016), Lei 9.249/95 e Leis 10.637/02 e 10.833/03',
+    simples: SIMPLES_LC155,
+    presuncao: {
+        servicos: { irpj: 0.32, csll: 0.32 },
+        comercioIndustria: { irpj: 0.08, csll: 0.12 },
+        hospitalar: { irpj: 0.08, csll: 0.12 }
+    },
+    pisCofins: {
+        pisCumulativo: 0.0065,
+        cofinsCumulativo: 0.03,
+        pisNaoCumulativo: 0.0165,
+        cofinsNaoCumulativo: 0.076
+    },
+    reforma: { cbs: 0, ibs: 0, fase: 'Sistema atual', pisCofinsExtinto: false, fatorIcmsIss: 1 },
+    lc224: { limiteReceita: 5000000, acrescimo: 0 },
+    desoneracao: { fatorCprb: 1, aliquotaFolha: 0 }
+};
+
+// 2025: CPRB a 80% da alíquota setorial e INSS patronal de 5% sobre a folha
+const REGRAS_2025: TaxRuleSet = {
+    ...REGRAS_2024,
+    versao: '2025.1',
+    vigenciaInicio: '2025-01-01',
+    descricao: 'Lei 14.973/2024 (reoneração gradual da folha)',
+    desoneracao: { fatorCprb: 0.8, aliquotaFolha: 0.05 }
+};
+
+// 2026: ano de teste da CBS (0,9%) e do IBS (0,1%) e acréscimo de 10% da LC 224/2025
+const REGRAS_2026: TaxRuleSet = {
+    ...REGRAS_2024,
+    versao: '2026.1',
+    vigenciaInicio: '2026-01-01',
+    descricao: 'LC 214/2025 (fase de teste CBS/IBS) e LC 224/2025',
+    reforma: { cbs: 0.009, ibs: 0.001, fase: 'Teste (1%)', pisCofinsExtinto: false, fatorIcmsIss: 1 },
+    lc224: { limiteReceita: 5000000, acrescimo: 0.10 },
+    desoneracao: { fatorCprb: 0.6, aliquotaFolha: 0.10 }
+};
+
+// Reoneração: 2027 CPRB a 40% e folha a 15%; a partir de 2028 somente os 20% sobre a folha
+const REONERACAO_2027 = { fatorCprb: 0.4, aliquotaFolha: 0.15 };
+const REONERACAO_PLENA = { fatorCprb: 0, aliquotaFolha: 0.20 };
+
+// Alíquotas de referência estimadas pelo Ministério da Fazenda (CBS + IBS = 26,5%)
+const CBS_REFERENCIA = 0.088;
+const IBS_REFERENCIA = 0.177;
+
+/**
+ * Transição da LC 214/2025: 2027-2028 CBS plena (referência - 0,1 p.p.) e IBS de 0,1%;
+ * 2029-2032 ICMS/ISS a 90/80/70/60% com o IBS ocupando o espaço reduzido; 2033 sistema pleno.
+ */
+const regrasTransicao = (
+    ano: number,
+    fase: string,
+    cbs: number,
+    fatorIcmsIss: number,
+    desoneracao: TaxRuleSet['desoneracao'] = REONERACAO_PLENA
+): TaxRuleSet => ({
+    ...REGRAS_2026,
+    versao: `${ano}.1`,
+    vigenciaInicio: `${ano}-01-01`,
+    descricao: `LC 214/2025 - ${fase}`,
+    pisCofins: { pisCumulativo: 0, cofinsCumulativo: 0, pisNaoCumulativo: 0, cofinsNaoCumulativo: 0 },
+    reforma: {
+        cbs,
+        ibs: fatorIcmsIss === 1 ? 0.001 : IBS_REFERENCIA * (1 - fatorIcmsIss),
+        fase,
+        pisCofinsExtinto: true,
+        fatorIcmsIss
+    },
+    desoneracao
+});
+
+export const DEFAULT_RULE_SETS: TaxRuleSet[] = [
+    REGRAS_2024,
+    REGRAS_2025,
+    REGRAS_2026,
+    regrasTransicao(2027, 'CBS plena', CBS_REFERENCIA - 0.001, 1, REONERACAO_2027),
+    regrasTransicao(2028, 'CBS plena', CBS_REFERENCIA - 0.001, 1),
+    regrasTransicao(2029, 'Transição ICMS/ISS 90%', CBS_REFERENCIA, 0.9),
+    regrasTransicao(2030, 'Transição ICMS/ISS 80%', CBS_REFERENCIA, 0.8),
+    regrasTransicao(2031, 'Transição ICMS/ISS 70%', CBS_REFERENCIA, 0.7),
+    regrasTransicao(2032, 'Transição ICMS/ISS 60%', CBS_REFERENCIA, 0.6),
+    regrasTransicao(2033, 'Sistema pleno', CBS_REFERENCIA, 0)
+];
+
+const competenciaKey = (competencia: Date | { ano: number; mes: number }): string => {
+    const ano = competencia instanceof Date ? competencia.getFullYear() : competencia.ano;
+    const mes = competencia instanceof Date ? competencia.getMonth() + 1 : competencia.mes;
+    return `${ano}-${String(mes).padStart(2, '0')}-01`;
+};
+
+/**
+ * Versão vigente na competência: a de maior início de vigência não posterior a ela.
+ * Competências anteriores à primeira versão usam a mais antiga.
+ */
+export function resolveRuleSet(
+    competencia: Date | { ano: number; mes: number },
+    ruleSets: TaxRuleSet[] = DEFAULT_RULE_SETS
+): TaxRuleSet {
+    const ordenadas = [...ruleSets].sort((a, b) => a.vigenciaInicio.localeCompare(b.vigenciaInicio));
+    const key = competenciaKey(competencia);
+    const vigentes = ordenadas.filter(r => r.vigenciaInicio <= key);
+    return vigentes.length > 0 ? vigentes[vigentes.length - 1] : ordenadas[0];
+}
+
+/**
+ * Junta as versões padrão com as publicadas; uma versão publicada substitui a padrão de mesmo número.
+ */
+export function mergeRuleSets(padrao: TaxRuleSet[], publicadas: TaxRuleSet[]): TaxRuleSet[] {
+    const porVersao = new Map<string, TaxRuleSet>();
+    padrao.forEach(r => porVersao.set(r.versao, r));
+    publicadas.forEach(r => porVersao.set(r.versao, r));
+    return [...porVersao.values()].sort((a, b) => a.vigenciaInicio.localeCompare(b.vigenciaInicio));
+}
+
+const isTaxa = (v: unknown) => typeof v === 'number' && v >= 0 && v <= 1;
+
+type Registro = Record<string, unknown>;
+const isRegistro = (v: unknown): v is Registro => typeof v === 'object' && v !== null && !Array.isArray(v);
+// Campo de um objeto JSON sem tipo conhecido; undefined quando o valor não é objeto
+const campo = (v: unknown, chave: string): unknown => (isRegistro(v) ? v[chave] : undefined);
+
+/**
+ * Valida a estrutura de uma versão editada no painel administrativo. Retorna a lista de erros.
+ */
+export function validateRuleSet(candidate: unknown): string[] {
+    const erros: string[] = [];
+    if (!isRegistro(candidate)) return ['A versão deve ser um objeto JSON.'];
+
+    const { versao, vigenciaInicio } = candidate;
+    if (typeof versao !== 'string' || !versao.trim()) erros.push('Informe o número da versão.');
+    if (typeof vigenciaInicio !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(vigenciaInicio)) {
+        erros.push('vigenciaInicio deve estar no formato AAAA-MM-DD.');
+    }
+
+    ['ANEXO_I', 'ANEXO_II', 'ANEXO_III', 'ANEXO_IV', 'ANEXO_V'].forEach(anexo => {
+        const faixas = campo(candidate.simples, anexo);
+        if (!Array.isArray(faixas) || faixas.length !== 6) {
+            erros.push(`simples.${anexo} deve ter 6 faixas.`);
+            return;
+        }
+        let limiteAnterior = -Infinity;
+        faixas.forEach((f: unknown, i: number) => {
+            const limite = campo(f, 'limite');
+            if (typeof limite !== 'number' || !isTaxa(campo(f, 'aliquota')) || typeof campo(f, 'deduzir') !== 'number') {
+                erros.push(`simples.${anexo}[${i}] inválida (limite, aliquota, deduzir).`);
+                return;
+            }
+            if (limite <= limiteAnterior) erros.push(`simples.${anexo}[${i}]: limites devem ser crescentes.`);
+            limiteAnterior = limite;
+        });
+    });
+
+    ['servicos', 'comercioIndustria', 'hospitalar'].forEach(grupo => {
+        const p = campo(candidate.presuncao, grupo);
+        if (!isTaxa(campo(p, 'irpj')) || !isTaxa(campo(p, 'csll'))) erros.push(`presuncao.${grupo} deve ter irpj e csll entre 0 e 1.`);
+    });
+
+    ['pisCumulativo', 'cofinsCumulativo', 'pisNaoCumulativo', 'cofinsNaoCumulativo'].forEach(nome => {
+        if (!isTaxa(campo(candidate.pisCofins, nome))) erros.push(`pisCofins.${nome} deve estar entre 0 e 1.`);
+    });
+
+    const { reforma, lc224, desoneracao } = candidate;
+    if (!isTaxa(campo(reforma, 'cbs')) || !isTaxa(campo(reforma, 'ibs'))) erros.push('reforma.cbs e reforma.ibs devem estar entre 0 e 1.');
+    if (typeof campo(reforma, 'pisCofinsExtinto') !== 'boolean') erros.push('reforma.pisCofinsExtinto deve ser true ou false.');
+    if (!isTaxa(campo(reforma, 'fatorIcmsIss'))) erros.push('reforma.fatorIcmsIss deve estar entre 0 e 1.');
+    if (typeof campo(lc224, 'limiteReceita') !== 'number' || !isTaxa(campo(lc224, 'acrescimo'))) {
+        erros.push('lc224 deve ter limiteReceita e acrescimo (0 a 1).');
+    }
+    if (!isTaxa(campo(desoneracao, 'fatorCprb')) || !isTaxa(campo(desoneracao, 'aliquotaFolha'))) {
+        erros.push('desoneracao deve ter fatorCprb e aliquotaFolha entre 0 e 1.');
+    }
+
+    return erros;
+}
@@ -0,0 +1,39 @@
+-- Versões publicadas das regras tributárias (services/ruleSetService.ts)
+create table if not exists public.tax_rule_versions (
+    id bigint generated always as identity primary key,
+    versao text not null unique,
+    vigencia_inicio date not null,
+    regras jsonb not null,
+    publicado_em timestamptz not null default now(),
+    publicado_por uuid not null references auth.users (id)
+);
+
+create index if not exists tax_rule_versions_vigencia_idx on public.tax_rule_versions (vigencia_inicio);
+
+alter table public.tax_rule_versions enable row level security;
+
+-- Leitura: qualquer usuário autenticado (o motor resolve a versão vigente no cliente)
+create policy "tax_rule_versions_select_authenticated"
+    on public.tax_rule_versions for select
+    to authenticated
+    using (true);
+
+-- Publicação: só administradores (app_metadata.role, definido pelo service role), em nome próprio
+create policy "tax_rule_versions_insert_admin"
+    on public.tax_rule_versions for insert
+    to authenticated
+    with check (
+        (auth.jwt() -> 'app_metadata' ->> 'role') = 'admin'
+        and publicado_por = auth.uid()
+    );
+
+create policy "tax_rule_versions_update_admin"
+    on public.tax_rule_versions for update
+    to authenticated
+    using ((auth.jwt() -> 'app_metadata' ->> 'role') = 'admin')
+    with check (
+        (auth.jwt() -> 'app_metadata' ->> 'role') = 'admin'
+        and publicado_por = auth.uid()
+    );
+
+-- Sem política de delete: versões publicadas não são removidas pelo app
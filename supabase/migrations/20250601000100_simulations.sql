@@ -0,0 +1,33 @@
+-- Simulações salvas pelos usuários (services/simulationService.ts)
+create table if not exists public.simulations (
+    id bigint generated always as identity primary key,
+    user_id uuid not null references auth.users (id) on delete cascade,
+    empresa text not null,
+    cnpj text not null,
+    competencia text not null, -- AAAA-MM
+    versao_regras text not null,
+    resultado jsonb not null,
+    criado_em timestamptz not null default now()
+);
+
+create index if not exists simulations_user_idx on public.simulations (user_id, criado_em desc);
+
+alter table public.simulations enable row level security;
+
+-- Cada usuário só enxerga, grava e remove as próprias simulações
+create policy "simulations_select_own"
+    on public.simulations for select
+    to authenticated
+    using (user_id = auth.uid());
+
+create policy "simulations_insert_own"
+    on public.simulations for insert
+    to authenticated
+    with check (user_id = auth.uid());
+
+create policy "simulations_delete_own"
+    on public.simulations for delete
+    to authenticated
+    using (user_id = auth.uid());
+
+-- Sem política de update: a simulação salva é um registro da apuração na versão de regras usada